@@ -1,5 +1,6 @@
 
 const CACHE_NAME = 'custom-model-cache-v1';
+const OCR_CACHE_NAME = 'ocr-data-cache-v1';
 
 self.addEventListener('install', (event) => {
     self.skipWaiting();
@@ -19,8 +20,23 @@ self.addEventListener('fetch', (event) => {
         console.log('[SW] Intercepting:', url.pathname);
         event.respondWith(serveCustomModel(url.pathname));
     }
+
+    // OCR language data: uploaded files first, then the bundled public/ocr-data/
+    if (url.origin === self.location.origin && url.pathname.startsWith('/ocr-data/')) {
+        event.respondWith(serveOcrData(event.request, url.pathname));
+    }
 });
 
+async function serveOcrData(request, pathname) {
+    const cache = await caches.open(OCR_CACHE_NAME);
+    const cached = await cache.match(pathname);
+    if (cached) {
+        console.log('[SW] ✅ OCR data dari cache:', pathname);
+        return cached;
+    }
+    return fetch(request);
+}
+
 async function serveCustomModel(pathname) {
     try {
         // Strip query strings if any (though URL pathname usually doesn't include them, 
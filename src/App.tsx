@@ -3,104 +3,53 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import React, { useState, useRef, useEffect, useMemo, useImperativeHandle } from 'react';
 import * as pdfjsLib from 'pdfjs-dist';
-import { Upload, BookOpen, Loader2, Languages, FileText, CheckCircle2, AlertCircle, Eye, EyeOff, X, Columns, ChevronLeft, ChevronRight, ChevronDown, ZoomIn, ZoomOut, BarChart3, Clock, Activity, Info, Wifi, WifiOff, ArrowLeft, Download, Settings, Trash2, Key, History, FileJson } from 'lucide-react';
+import { Upload, BookOpen, Loader2, Languages, FileText, CheckCircle2, AlertCircle, Eye, EyeOff, X, Columns, ChevronLeft, ChevronRight, ChevronDown, ZoomIn, ZoomOut, BarChart3, Clock, Activity, Info, Wifi, WifiOff, ArrowLeft, Download, Settings, Trash2, Key, History, FileJson, ScanText, Server, Database, Search, BookMarked, Plus, RotateCcw, Square, SquareCheck, Pause, Play, Pencil } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import { pipeline, env } from '@xenova/transformers';
-
-// Intercept fetch for custom models
+import { BookDetection, detectBookLanguage, detectLanguage, parseModelLanguagePair } from './lib/langDetect';
+import { parseEpub } from './lib/epub';
+import { createCustomModelFetch } from './lib/customModelFetch';
+import { createTranslatorWorker, TranslationCancelledError, TranslatorWorker } from './lib/translatorClient';
+import type { ModelProgressData } from './lib/translatorProtocol';
+import { segmentSentences } from './lib/segmenter';
+import { flowSentencesAcrossPages, layoutPages, PageParagraphs, RawTextItem } from './lib/pdfLayout';
+import { alignWordsToSentences, createOcrEngine, deleteOcrLanguage, isOcrLanguageAvailable, listUploadedOcrLanguages, OcrPageResult, OcrWord, saveOcrLanguageFiles, toTesseractCode } from './lib/ocr';
+import { formatTimestamp, getSubtitleFormat, parseSubtitles, serializeSubtitles, SubtitleCue, SubtitleExportMode } from './lib/subtitles';
+import { BookRecord, deleteBook, isLegacyBookRecord, listBooks, loadBookSentences, migrateLegacyHistory, rekeyBook, saveBook, updateBook } from './lib/bookStore';
+import { isQuotaError } from './lib/db';
+import type { RateLimiterState } from './lib/rateLimiter';
+import { hashFile, hashString } from './lib/hash';
+import { pickNextBatch, prefetchWindow, removeFromQueue } from './lib/viewportQueue';
+import { isHumanEdited, revertEdit, TranslationRevision, withHumanEdit, withRevision } from './lib/revisions';
+import { useWindowVirtualizer, VirtualListHandle } from './lib/virtualList';
+import { clearJob, createTranslationJob, isAbortError, loadJob, saveJob, TranslationJob, TranslationJobRecord } from './lib/translationJob';
+import { createGlossaryChecker, GlossaryChecker, GlossaryEntry, glossaryForTexts } from './lib/glossary';
+import { clearTranslationMemory, deleteMemoryEntry, getMemoryStats, listMemoryEntries, lookupTranslations, MemoryEntry, MemoryMatch, MemoryStats, storeTranslations } from './lib/translationMemory';
+import { buildEpub, EpubLayout } from './lib/epubExport';
+import type { ChapterMode } from './lib/bookExport';
+import { buildPdf, PdfLayout, PdfPageSize } from './lib/pdfExport';
+import { defaultFontFor, deleteFont, listUploadedFonts, saveFontFiles } from './lib/pdfFonts';
+import { LANGUAGES, DEFAULT_SOURCE_LANG, DEFAULT_TARGET_LANG, getLanguage, isMultilingualModel, suggestOpusModel } from './lib/languages';
+import { createGeminiProvider, createOpenAICompatibleProvider, createTransformersProvider, getProvider, listProviders, loadProviderSettings, ProviderSettings, registerProvider, saveProviderSettings, TranslationContext, TranslationProvider, TransformersRuntime } from './lib/providers';
+
+// Intercept fetch for custom models (main thread fallback for the Service Worker)
 const originalFetch = window.fetch;
-(window as any).fetch = async (...args: any[]) => {
-  if (args.length === 0) return originalFetch.apply(window, args as any);
-  let url = '';
-  let requestInit: RequestInit | undefined;
-
-  if (args[0] instanceof Request) {
-    url = args[0].url;
-    requestInit = args[0];
-  } else {
-    url = typeof args[0] === 'string' ? args[0] : (args[0] as URL).toString();
-    requestInit = args[1];
-  }
-
-  // Intercept ALL requests for custom-model files (main thread fallback for Service Worker)
-  if (url.includes('/custom-model/')) {
-    // Strip query strings (Transformers.js adds ?v=... to some requests)
-    const cleanUrl = url.split('?')[0];
-    const parts = cleanUrl.split('/custom-model/');
-    const filenameWithPossiblyPath = parts[parts.length - 1];
-    const filenameOnly = filenameWithPossiblyPath.split('/').pop() || '';
-    const files = (window as any).__CUSTOM_MODEL_FILES__ as Map<string, Blob>;
-
-    if (files && files.size > 0) {
-      // Try exact match first
-      let blob = files.get(filenameWithPossiblyPath) || files.get(filenameOnly);
-
-      // Fuzzy fallback for .onnx files
-      if (!blob && filenameOnly.endsWith('.onnx')) {
-        const filenames = Array.from(files.keys());
-        // If we're looking for encoder/decoder, try to find them specifically
-        // Also recognize "merged" models which contain decoder in a single file
-        const isEncoder = filenameOnly.toLowerCase().includes('encoder');
-        const isDecoder = filenameOnly.toLowerCase().includes('decoder') || filenameOnly.toLowerCase().includes('merged');
-
-        if (isEncoder) {
-          const match = filenames.find(k => k.toLowerCase().includes('encoder') && k.endsWith('.onnx'));
-          if (match) blob = files.get(match);
-        } else if (isDecoder) {
-          // First try exact decoder match, then try merged model
-          let match = filenames.find(k => k.toLowerCase().includes('decoder') && k.endsWith('.onnx'));
-          if (!match) {
-            // Try to find merged model (single file with both encoder+decoder)
-            match = filenames.find(k => k.toLowerCase().includes('merged') && k.endsWith('.onnx'));
-          }
-          if (match) blob = files.get(match);
-        }
-
-        // If still no blob, just take any .onnx if there's only one
-        if (!blob) {
-          const onnxFiles = filenames.filter(k => k.endsWith('.onnx'));
-          if (onnxFiles.length === 1) blob = files.get(onnxFiles[0]);
-        }
-      }
-
-      if (blob) {
-        const log = `[Fetch] ✅ Serving LOKAL: ${filenameOnly} (${(blob.size / 1024 / 1024).toFixed(2)} MB)`;
-        console.log(log);
-        if ((window as any).__ADD_DEBUG_LOG__) (window as any).__ADD_DEBUG_LOG__(log);
-        return new Response(blob, {
-          status: 200,
-          headers: {
-            'Content-Type': blob.type || (filenameOnly.endsWith('.json') ? 'application/json' : 'application/octet-stream'),
-            'Access-Control-Allow-Origin': '*'
-          }
-        });
-      }
-
-      // Return 404 for missing files
-      const errLog = `[Fetch] ⚠️ 404: ${filenameOnly} (optional)`;
-      console.warn(errLog);
-      if ((window as any).__ADD_DEBUG_LOG__) (window as any).__ADD_DEBUG_LOG__(errLog);
-      return new Response(`File not found: ${filenameOnly}`, {
-        status: 404,
-        headers: { 'Content-Type': 'text/plain' }
-      });
-    }
-  }
-  return originalFetch.apply(window, args as [RequestInfo | URL, RequestInit | undefined]);
-};
-
-// Configure transformers.js
-env.allowLocalModels = true;
-env.allowRemoteModels = true;
-env.localModelPath = '';
-// Note: proxy=false and numThreads=1 keep ONNX on main thread, but
-// Service Worker is more reliable as it intercepts ALL fetches.
-env.backends.onnx.wasm.proxy = false;
-env.backends.onnx.wasm.numThreads = 1;
-env.backends.onnx.wasm.wasmPaths = 'https://cdn.jsdelivr.net/npm/@xenova/transformers@2.17.1/dist/';
+(window as any).fetch = createCustomModelFetch(
+  (...args: any[]) => originalFetch.apply(window, args as [RequestInfo | URL, RequestInit | undefined]),
+  () => (window as any).__CUSTOM_MODEL_FILES__,
+  (msg) => (window as any).__ADD_DEBUG_LOG__?.(msg)
+);
+
+// Transformers.js itself is configured inside the translator worker
+// (src/workers/translator.worker.ts), which loads and runs the models.
+
+// Translation engines. The Transformers.js runtime is bound by the App
+// component on every render, since model loading lives there.
+let transformersRuntime: TransformersRuntime | null = null;
+registerProvider(createGeminiProvider());
+registerProvider(createTransformersProvider(() => transformersRuntime));
+registerProvider(createOpenAICompatibleProvider());
 
 // Register Service Worker for custom model serving  
 if ('serviceWorker' in navigator) {
@@ -126,54 +75,134 @@ interface TextPair {
   original: string;
   translated: string;
   status: 'pending' | 'translating' | 'completed' | 'error';
-  page?: number;
+  page?: number; // Page the sentence starts on
+  endPage?: number; // Set when the sentence continues onto a later page
+  chapter?: number; // 1-based chapter index for EPUB books
+  chapterTitle?: string;
+  cue?: Omit<SubtitleCue, 'text'>; // Subtitle timing, kept intact for export
+  words?: OcrWord[]; // OCR word boxes for scanned pages (unscaled PDF units)
   eta?: number; // Estimated seconds remaining
+  lang?: string; // Per-sentence language, only set for mixed-language books
+  skipped?: boolean; // Already in the target language, kept verbatim
+  paragraphStart?: boolean; // First sentence of a paragraph; resets translation context
+  memory?: { kind: 'exact' | 'fuzzy'; similarity: number }; // Served from the translation memory
+  revisions?: TranslationRevision[]; // Engine output and human edits, oldest first
+}
+
+// Sentences are stored separately; see src/lib/bookStore.ts
+type HistoryEntry = BookRecord;
+type BookRef = Pick<BookRecord, 'id' | 'fileName'>;
+
+// Narrows a translation run to chosen sentences and/or another engine (retry, re-translate)
+interface TranslateRunOptions {
+  indices?: number[];
+  providerId?: string;
+  skipMemory?: boolean; // Ask the engine for a fresh translation instead of reusing the memory
+  resume?: boolean; // Continues the book's paused job rather than interrupting it
 }
 
-interface HistoryEntry {
-  fileName: string;
-  textPairs: TextPair[];
-  date: string;
-  progress: number;
+interface ProviderSettingsFieldsProps {
+  provider: TranslationProvider;
+  settings: ProviderSettings;
+  onChange: (key: string, value: string) => void;
 }
 
+const ProviderSettingsFields = ({ provider, settings, onChange }: ProviderSettingsFieldsProps) => (
+  <div className="space-y-3">
+    {provider.settingsFields.map(field => (
+      <div key={field.key}>
+        <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-3">
+          <Key className="w-3 h-3" /> {field.label}
+        </label>
+        <div className="relative">
+          <input
+            type={field.type}
+            value={settings[field.key] ?? ''}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono"
+          />
+        </div>
+        {field.help && (
+          <p className="text-[10px] text-zinc-500 mt-2 italic">
+            {field.help}
+          </p>
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+const isEpubFile = (file: File) =>
+  file.type === 'application/epub+zip' || file.name.toLowerCase().endsWith('.epub');
+
+type PairAction =
+  | { type: 'retry' }
+  | { type: 'retranslate'; providerId?: string }
+  | { type: 'select'; range: boolean }
+  | { type: 'edit'; text: string }
+  | { type: 'revert'; at: number };
+
 interface TranslationPairProps {
   index: number;
   pair: TextPair;
-  hoveredIndex: number | null;
+  isHovered: boolean;
   showOriginalOnly: boolean;
-  pdfPage: number;
   readerFontSize: number;
+  sourceLang: string;
+  targetLang: string;
+  isChapterStart: boolean;
+  glossaryIssues?: string; // Comma-separated glossary terms the translation violates
+  selected: boolean;
+  actionsDisabled: boolean; // A translation run is in progress
+  onAction: (index: number, action: PairAction) => void;
   setHoveredIndex: (index: number | null) => void;
-  setPdfPage: (page: number) => void;
+  setPdfPage: React.Dispatch<React.SetStateAction<number>>;
   setActiveTab: (tab: 'translation' | 'pdf') => void;
 }
 
+// Rows only re-render when their own pair (or a display setting) changes;
+// every prop except `pair` is a primitive or a stable callback
 const TranslationPair = React.memo(({
   index,
   pair,
-  hoveredIndex,
+  isHovered,
   showOriginalOnly,
-  pdfPage,
   setHoveredIndex,
   setPdfPage,
   setActiveTab,
-  readerFontSize
+  readerFontSize,
+  sourceLang,
+  targetLang,
+  isChapterStart,
+  glossaryIssues,
+  selected,
+  actionsDisabled,
+  onAction
 }: TranslationPairProps) => {
+  // PDF pairs navigate by page, EPUB pairs by chapter
+  const location = pair.page ?? pair.chapter;
+  const [draft, setDraft] = useState<string | null>(null);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const edited = isHumanEdited(pair);
+  const saveDraft = () => {
+    if (draft !== null && draft.trim() && draft.trim() !== pair.translated) {
+      onAction(index, { type: 'edit', text: draft.trim() });
+    }
+    setDraft(null);
+  };
   return (
-    <motion.div
+    <div
       id={`pair-${index}`}
-      initial={{ opacity: 0 }}
-      animate={{ opacity: 1 }}
-      transition={{ duration: 0.3 }}
-      className={`group cursor-pointer rounded-xl transition-all duration-300 ${hoveredIndex === index
-        ? 'bg-emerald-500/10 -mx-4 px-4 py-2 ring-1 ring-emerald-500/30 scale-[1.01] shadow-lg z-10 relative'
-        : 'hover:bg-white/5'
+      className={`group cursor-pointer rounded-xl transition-all duration-300 relative ${isHovered
+        ? 'bg-emerald-500/10 -mx-4 px-4 py-2 ring-1 ring-emerald-500/30 scale-[1.01] shadow-lg z-10'
+        : selected ? 'bg-blue-500/10 ring-1 ring-blue-500/30' : 'hover:bg-white/5'
         }`}
       onMouseEnter={() => {
         setHoveredIndex(index);
-        if (pair.page && pair.page !== pdfPage) {
-          setPdfPage(pair.page);
+        // A sentence spanning pages is already in view on any of its pages
+        if (location) {
+          setPdfPage(page => page < location || page > (pair.endPage ?? location) ? location : page);
         }
       }}
       onMouseLeave={() => setHoveredIndex(null)}
@@ -184,8 +213,71 @@ const TranslationPair = React.memo(({
         }
       }}
     >
+      {isChapterStart && pair.chapterTitle && (
+        <h2 className="text-xs font-bold text-emerald-500 uppercase tracking-widest pt-6 pb-3 border-b border-white/5 mb-4">
+          {pair.chapterTitle}
+        </h2>
+      )}
       <div className="space-y-1">
+        <div
+          className={`absolute top-1 right-1 flex items-center gap-1 transition-opacity ${selected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          {!showOriginalOnly && pair.status !== 'translating' && draft === null && (
+            <button
+              onClick={() => setDraft(pair.translated)}
+              className="p-1 bg-[#1a1a1a] border border-white/10 rounded-lg text-zinc-400 hover:text-white transition-colors"
+              title="Edit terjemahan"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+          )}
+          {!showOriginalOnly && (pair.revisions?.length ?? 0) > 1 && (
+            <button
+              onClick={() => setShowRevisions(v => !v)}
+              className={`p-1 bg-[#1a1a1a] border border-white/10 rounded-lg hover:text-white transition-colors ${showRevisions ? 'text-white' : 'text-zinc-400'}`}
+              title="Riwayat revisi"
+            >
+              <History className="w-3 h-3" />
+            </button>
+          )}
+          {!showOriginalOnly && pair.status === 'completed' && !edited && (
+            <select
+              value=""
+              disabled={actionsDisabled}
+              onChange={(e) => onAction(index, { type: 'retranslate', providerId: e.target.value })}
+              className="bg-[#1a1a1a] border border-white/10 rounded-lg px-2 py-1 text-[10px] text-zinc-400 focus:outline-none disabled:opacity-30 [&>option]:bg-[#1a1a1a]"
+              title="Terjemahkan ulang dengan mesin lain"
+            >
+              <option value="" disabled>Terjemahkan ulang dengan…</option>
+              {listProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          )}
+          {!showOriginalOnly && (pair.status === 'completed' || pair.status === 'error') && !edited && (
+            <button
+              onClick={() => onAction(index, pair.status === 'error' ? { type: 'retry' } : { type: 'retranslate' })}
+              disabled={actionsDisabled}
+              className="p-1 bg-[#1a1a1a] border border-white/10 rounded-lg text-zinc-400 hover:text-white disabled:opacity-30 transition-colors"
+              title={pair.status === 'error' ? 'Coba lagi' : 'Terjemahkan ulang'}
+            >
+              <RotateCcw className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={(e) => onAction(index, { type: 'select', range: e.shiftKey })}
+            className="p-1 bg-[#1a1a1a] border border-white/10 rounded-lg text-zinc-400 hover:text-white transition-colors"
+            title="Pilih kalimat (Shift+klik untuk rentang)"
+          >
+            {selected ? <SquareCheck className="w-3 h-3 text-blue-400" /> : <Square className="w-3 h-3" />}
+          </button>
+        </div>
+        {pair.cue && (
+          <p className="text-[10px] font-mono text-zinc-600">
+            #{pair.cue.index} · {formatTimestamp(pair.cue.start, 'vtt')} → {formatTimestamp(pair.cue.end, 'vtt')}
+          </p>
+        )}
         <p
+          lang={sourceLang}
           className="font-semibold leading-relaxed text-white/90 group-hover:text-emerald-400 transition-colors"
           style={{ fontSize: `${readerFontSize}px` }}
         >
@@ -194,7 +286,28 @@ const TranslationPair = React.memo(({
 
         {!showOriginalOnly && (
           <div className="min-h-[1.2rem] mt-2">
-            {pair.status === 'translating' ? (
+            {draft !== null ? (
+              <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                <textarea
+                  lang={targetLang}
+                  value={draft}
+                  autoFocus
+                  rows={Math.max(2, Math.ceil(draft.length / 70))}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) saveDraft();
+                    if (e.key === 'Escape') setDraft(null);
+                  }}
+                  className="w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-zinc-200 leading-relaxed focus:outline-none focus:ring-2 focus:ring-emerald-500/50 resize-y"
+                  style={{ fontSize: `${Math.max(12, readerFontSize - 2)}px` }}
+                />
+                <div className="flex items-center justify-end gap-2 text-[10px] font-bold uppercase tracking-widest">
+                  <span className="mr-auto normal-case tracking-normal font-normal text-zinc-600">Ctrl+Enter untuk menyimpan, Esc untuk batal</span>
+                  <button onClick={() => setDraft(null)} className="px-3 py-1 text-zinc-400 hover:text-white">Batal</button>
+                  <button onClick={saveDraft} className="px-3 py-1 bg-emerald-500 text-black rounded-lg hover:bg-emerald-400">Simpan</button>
+                </div>
+              </div>
+            ) : pair.status === 'translating' ? (
               <div className="space-y-2">
                 <div className="flex items-center justify-between text-[10px] font-bold">
                   <div className="flex items-center gap-2 text-blue-400">
@@ -219,34 +332,171 @@ const TranslationPair = React.memo(({
                     className="h-full bg-blue-500"
                   />
                 </div>
+                {pair.translated && (
+                  <p
+                    lang={targetLang}
+                    className="font-medium text-zinc-600 leading-relaxed italic opacity-60"
+                    style={{ fontSize: `${Math.max(12, readerFontSize - 2)}px` }}
+                  >
+                    {pair.translated}
+                  </p>
+                )}
               </div>
             ) : pair.status === 'completed' ? (
               <motion.p
+                lang={targetLang}
                 initial={{ opacity: 0, y: 5 }}
                 animate={{ opacity: 1, y: 0 }}
                 className="font-medium text-zinc-500 leading-relaxed italic"
                 style={{ fontSize: `${Math.max(12, readerFontSize - 2)}px` }}
               >
                 {pair.translated}
+                {pair.skipped && (
+                  <span className="ml-2 not-italic text-[9px] font-bold uppercase tracking-widest text-zinc-600">
+                    sudah {getLanguage(targetLang).label}
+                  </span>
+                )}
+                {edited && (
+                  <span
+                    className="ml-2 not-italic text-[9px] font-bold uppercase tracking-widest text-emerald-500/80"
+                    title="Diedit manual; tidak akan ditimpa saat terjemahan ulang"
+                  >
+                    ✎ diedit
+                  </span>
+                )}
+                {glossaryIssues && (
+                  <span
+                    className="ml-2 not-italic text-[9px] font-bold uppercase tracking-widest text-amber-500/80"
+                    title={`Tidak sesuai glosarium: ${glossaryIssues}`}
+                  >
+                    ⚠ {glossaryIssues}
+                  </span>
+                )}
+                {pair.memory && (
+                  <span
+                    className={`ml-2 not-italic text-[9px] font-bold uppercase tracking-widest ${pair.memory.kind === 'fuzzy' ? 'text-amber-500/70' : 'text-zinc-600'}`}
+                    title={pair.memory.kind === 'fuzzy' ? 'Diambil dari kalimat serupa di Translation Memory' : 'Diambil dari Translation Memory'}
+                  >
+                    TM{pair.memory.kind === 'fuzzy' ? ` ${Math.round(pair.memory.similarity * 100)}%` : ''}
+                  </span>
+                )}
               </motion.p>
             ) : pair.status === 'error' ? (
               <div className="flex items-center gap-2 text-red-500/60 italic text-[10px]">
                 <AlertCircle className="w-3 h-3" />
                 <span>Gagal menerjemahkan. Cek kuota atau file model.</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); onAction(index, { type: 'retry' }); }}
+                  disabled={actionsDisabled}
+                  className="not-italic font-bold uppercase tracking-widest text-red-400 hover:text-red-300 disabled:opacity-30"
+                >
+                  Coba lagi
+                </button>
               </div>
             ) : null}
+            {showRevisions && pair.revisions && (
+              <ol className="mt-3 space-y-2 border-l border-white/10 pl-3" onClick={(e) => e.stopPropagation()}>
+                {[...pair.revisions].reverse().map((revision, k) => (
+                  <li key={`${revision.at}-${k}`} className="text-[11px] leading-relaxed">
+                    <div className="flex items-center gap-2 text-[9px] font-bold uppercase tracking-widest text-zinc-600">
+                      <span className={revision.origin === 'human' ? 'text-emerald-500/80' : ''}>
+                        {revision.origin === 'human' ? 'Manual' : revision.engine === 'memory' ? 'Translation Memory' : revision.engine || 'Mesin'}
+                      </span>
+                      {revision.at > 0 && (
+                        <span className="font-mono normal-case tracking-normal">{new Date(revision.at).toLocaleString()}</span>
+                      )}
+                      {k === 0 && <span className="text-zinc-500">· aktif</span>}
+                      {revision.origin === 'human' && (
+                        <button
+                          onClick={() => onAction(index, { type: 'revert', at: revision.at })}
+                          className="ml-auto text-red-400/80 hover:text-red-300"
+                        >
+                          Batalkan edit
+                        </button>
+                      )}
+                    </div>
+                    <p lang={targetLang} className="text-zinc-500 italic">{revision.text}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
           </div>
         )}
       </div>
-    </motion.div>
+    </div>
   );
 });
 
+interface SentenceListProps {
+  count: number;
+  resetKey: string; // Row heights are re-measured when this changes
+  handleRef: React.RefObject<VirtualListHandle | null>;
+  renderRow: (index: number) => React.ReactNode;
+}
+
+// Mounts only the pairs near the viewport; books can have 10k+ sentences
+const SentenceList = ({ count, resetKey, handleRef, renderRow }: SentenceListProps) => {
+  const list = useWindowVirtualizer({ count, estimateSize: 140, overscan: 800, resetKey });
+  useImperativeHandle(handleRef, () => ({
+    scrollToIndex: list.scrollToIndex,
+    indexAtViewportCenter: list.indexAtViewportCenter
+  }), [list.scrollToIndex, list.indexAtViewportCenter]);
+
+  const rows: React.ReactNode[] = [];
+  for (let index = list.start; index < list.end; index++) {
+    rows.push(
+      <div key={index} data-index={index} ref={list.measureRef} className="pb-6">
+        {renderRow(index)}
+      </div>
+    );
+  }
+  return (
+    <div ref={list.containerRef} style={{ paddingTop: list.paddingTop, paddingBottom: list.paddingBottom }}>
+      {rows}
+    </div>
+  );
+};
+
+interface LanguagePairSelectorProps {
+  sourceLang: string;
+  targetLang: string;
+  setSourceLang: (code: string) => void;
+  setTargetLang: (code: string) => void;
+}
+
+const LanguagePairSelector = ({ sourceLang, targetLang, setSourceLang, setTargetLang }: LanguagePairSelectorProps) => {
+  const selectClass = "flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm focus:outline-none focus:border-emerald-500/50 transition-colors [&>option]:bg-[#1a1a1a]";
+  return (
+    <div className="flex items-center gap-2 w-full">
+      <select value={sourceLang} onChange={(e) => setSourceLang(e.target.value)} className={selectClass} title="Bahasa sumber">
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+      </select>
+      <button
+        onClick={() => { setSourceLang(targetLang); setTargetLang(sourceLang); }}
+        className="p-2 bg-white/5 rounded-lg hover:bg-white/10 text-zinc-400 hover:text-white transition-all"
+        title="Tukar bahasa"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      <select value={targetLang} onChange={(e) => setTargetLang(e.target.value)} className={selectClass} title="Bahasa target">
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+      </select>
+    </div>
+  );
+};
+
+// Languages picked in the selector; new books start from these
+const defaultSourceLang = () => localStorage.getItem('default_source_lang') || DEFAULT_SOURCE_LANG;
+const defaultTargetLang = () => localStorage.getItem('default_target_lang') || DEFAULT_TARGET_LANG;
+
 export default function App() {
   const [textPairs, setTextPairs] = useState<TextPair[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [activeJob, setActiveJob] = useState<TranslationJob | null>(null);
+  const [pausedJob, setPausedJob] = useState<TranslationJobRecord | null>(null);
   const [progress, setProgress] = useState(0);
-  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null); // Display label only
+  const [bookId, setBookId] = useState<string | null>(null); // Content hash; keys history and per-book data
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [showOriginalOnly, setShowOriginalOnly] = useState(false);
   const [activeTab, setActiveTab] = useState<'translation' | 'pdf'>('translation');
@@ -257,6 +507,9 @@ export default function App() {
   const [pdfZoom, setPdfZoom] = useState(1.2);
   const [debouncedZoom, setDebouncedZoom] = useState(1.2);
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [selectedIndices, setSelectedIndices] = useState<Set<number>>(new Set());
+  const selectionAnchorRef = useRef<number | null>(null);
+  const [selectionProviderId, setSelectionProviderId] = useState<string>('');
   const [textLayerRenderedCount, setTextLayerRenderedCount] = useState(0);
   const [resumedPage, setResumedPage] = useState<number | null>(null);
   const [tokenUsage, setTokenUsage] = useState({
@@ -274,10 +527,15 @@ export default function App() {
     return 0;
   });
   const [showDashboard, setShowDashboard] = useState(false);
-  const [isOfflineMode, setIsOfflineMode] = useState(() => {
-    const saved = localStorage.getItem('isOfflineMode');
-    return saved === 'true';
+  const [geminiQueue, setGeminiQueue] = useState<RateLimiterState | null>(null);
+  const [providerId, setProviderId] = useState(() => {
+    const saved = localStorage.getItem('translation_provider');
+    if (saved && getProvider(saved)) return saved;
+    // Older versions only had an online/offline switch
+    return localStorage.getItem('isOfflineMode') === 'true' ? 'transformers' : 'gemini';
   });
+  const [providerSettings, setProviderSettings] = useState<Record<string, ProviderSettings>>(loadProviderSettings);
+  const isOfflineMode = providerId === 'transformers';
   const [isModelLoading, setIsModelLoading] = useState(false);
   const [modelProgress, setModelProgress] = useState(0);
   const [modelStatus, setModelStatus] = useState<string | null>(null);
@@ -296,17 +554,72 @@ export default function App() {
   const [loadedModelId, setLoadedModelId] = useState<string | null>(null);
   const [debugLogs, setDebugLogs] = useState<string[]>([]);
   const [showSettings, setShowSettings] = useState(false);
-  const [geminiApiKey, setGeminiApiKey] = useState(() => {
-    return localStorage.getItem('gemini_api_key') || import.meta.env.VITE_GEMINI_API_KEY || '';
+  const [showMemory, setShowMemory] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [exportTitle, setExportTitle] = useState('');
+  const [exportFormat, setExportFormat] = useState<'epub' | 'pdf'>('epub');
+  const [isExporting, setIsExporting] = useState(false);
+  const [uploadedFonts, setUploadedFonts] = useState<string[]>([]);
+  const [exportSettings, setExportSettings] = useState(() => {
+    const defaults = {
+      author: '',
+      layout: 'interleaved' as EpubLayout,
+      chapterMode: 'auto' as ChapterMode,
+      pagesPerChapter: 10,
+      pdfLayout: 'side-by-side' as PdfLayout,
+      pageSize: 'A4' as PdfPageSize,
+      marginMm: 15,
+      fontSize: 10,
+      originalFont: '', // Empty: Noto default for the language
+      translationFont: ''
+    };
+    try {
+      return { ...defaults, ...JSON.parse(localStorage.getItem('export_settings') || '{}') };
+    } catch {
+      return defaults;
+    }
+  });
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const glossaryRef = useRef<GlossaryEntry[]>([]);
+  glossaryRef.current = glossary;
+  // The glossary the translations were last checked against
+  const [checkedGlossary, setCheckedGlossary] = useState<GlossaryEntry[]>([]);
+  const [memoryStats, setMemoryStats] = useState<MemoryStats | null>(null);
+  const [memoryEntries, setMemoryEntries] = useState<MemoryEntry[]>([]);
+  const [memoryQuery, setMemoryQuery] = useState('');
+  // Translation context for providers that support it (0 disables)
+  const [contextSize, setContextSize] = useState(() => {
+    return parseInt(localStorage.getItem('context_size') || '3');
+  });
+  const [contextFollowing, setContextFollowing] = useState(() => {
+    return parseInt(localStorage.getItem('context_following') || '0');
+  });
+  const [contextBoundary, setContextBoundary] = useState<'paragraph' | 'chapter'>(() => {
+    return localStorage.getItem('context_boundary') === 'chapter' ? 'chapter' : 'paragraph';
+  });
+  // Sentences translated ahead of the reader; the rest follows only in background mode
+  const [prefetchSize, setPrefetchSize] = useState(() => {
+    return parseInt(localStorage.getItem('prefetch_window') || '40');
+  });
+  const [backgroundTranslation, setBackgroundTranslation] = useState(() => {
+    return localStorage.getItem('background_translation') === 'true';
+  });
+  // 1 disables fuzzy matching
+  const [memoryFuzzyThreshold, setMemoryFuzzyThreshold] = useState(() => {
+    return parseFloat(localStorage.getItem('tm_fuzzy_threshold') || '1');
   });
   const [readerFontSize, setReaderFontSize] = useState(() => {
     return parseInt(localStorage.getItem('reader_font_size') || '18');
   });
-  const [translationHistory, setTranslationHistory] = useState<HistoryEntry[]>(() => {
-    const saved = localStorage.getItem('translation_history');
-    return saved ? JSON.parse(saved) : [];
-  });
+  const [sourceLang, setSourceLang] = useState(defaultSourceLang);
+  const [targetLang, setTargetLang] = useState(defaultTargetLang);
+  const [ocrLanguages, setOcrLanguages] = useState<string[]>([]);
+  const [detectedLang, setDetectedLang] = useState<HistoryEntry['detectedLang'] | null>(null);
+  const [languageWarningDismissed, setLanguageWarningDismissed] = useState(false);
+  const [translationHistory, setTranslationHistory] = useState<HistoryEntry[]>([]);
   const [modelConfig, setModelConfig] = useState<{
+    id: string; // Model name plus a fingerprint of the uploaded files
     arch?: string;
     modelType?: string;
     tokenizer?: string;
@@ -319,14 +632,103 @@ export default function App() {
 
   // Save settings when they change
   useEffect(() => {
-    localStorage.setItem('gemini_api_key', geminiApiKey);
     localStorage.setItem('reader_font_size', readerFontSize.toString());
-  }, [geminiApiKey, readerFontSize]);
+  }, [readerFontSize]);
+
+  useEffect(() => {
+    saveProviderSettings(providerSettings);
+  }, [providerSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('tm_fuzzy_threshold', memoryFuzzyThreshold.toString());
+  }, [memoryFuzzyThreshold]);
+
+  useEffect(() => {
+    localStorage.setItem('context_size', contextSize.toString());
+    localStorage.setItem('context_following', contextFollowing.toString());
+    localStorage.setItem('context_boundary', contextBoundary);
+  }, [contextSize, contextFollowing, contextBoundary]);
+
+  useEffect(() => {
+    localStorage.setItem('prefetch_window', prefetchSize.toString());
+    localStorage.setItem('background_translation', backgroundTranslation.toString());
+  }, [prefetchSize, backgroundTranslation]);
+
+  const refreshMemory = async (query = memoryQuery) => {
+    try {
+      const [stats, entries] = await Promise.all([getMemoryStats(), listMemoryEntries(query)]);
+      setMemoryStats(stats);
+      setMemoryEntries(entries);
+    } catch (err) {
+      console.error("[TM] Failed to read translation memory:", err);
+      setErrorMessage("Gagal membaca Translation Memory.");
+    }
+  };
+
+  useEffect(() => {
+    if (showMemory) refreshMemory(memoryQuery);
+  }, [showMemory, memoryQuery]);
+
+  const updateProviderSetting = (id: string, key: string, value: string) => {
+    setProviderSettings(prev => ({ ...prev, [id]: { ...prev[id], [key]: value } }));
+  };
+
+  // A pair picked in the selector becomes the default for new books; pairs
+  // restored from a book or detected on import don't
+  const chooseSourceLang = (code: string) => {
+    setSourceLang(code);
+    localStorage.setItem('default_source_lang', code);
+  };
+  const chooseTargetLang = (code: string) => {
+    setTargetLang(code);
+    localStorage.setItem('default_target_lang', code);
+  };
+
+  // Keep the open book's language pair in its history record
+  useEffect(() => {
+    const current = bookId ? translationHistoryRef.current.find(h => h.id === bookId) : undefined;
+    if (current) {
+      const updated = { ...current, sourceLang, targetLang };
+      setTranslationHistory(prev => prev.map(h => h.id === updated.id ? updated : h));
+      updateBook(updated, []).catch(handleStorageError);
+    }
+  }, [sourceLang, targetLang]);
+
+  // Refresh the list of uploaded OCR language data when settings open
+  useEffect(() => {
+    if (showSettings) {
+      listUploadedOcrLanguages().then(setOcrLanguages).catch(() => setOcrLanguages([]));
+    }
+  }, [showSettings]);
+
+  // Live view of the Gemini request scheduler while the dashboard is open;
+  // the interval keeps the window counts and countdowns moving
+  useEffect(() => {
+    const scheduler = getProvider('gemini')?.scheduler;
+    if (!showDashboard || !scheduler) return;
+    setGeminiQueue(scheduler.getState());
+    const unsubscribe = scheduler.subscribe(setGeminiQueue);
+    const timer = setInterval(() => setGeminiQueue(scheduler.getState()), 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [showDashboard]);
 
-  // Save history when it changes
+  // Load book history, moving any pre-IndexedDB localStorage history over first
   useEffect(() => {
-    localStorage.setItem('translation_history', JSON.stringify(translationHistory));
-  }, [translationHistory]);
+    migrateLegacyHistory()
+      .catch((err) => {
+        console.error("[History] Migration failed:", err);
+        if (isQuotaError(err)) handleStorageError(err);
+      })
+      .then(listBooks)
+      .then(setTranslationHistory)
+      .catch((err) => {
+        console.error("[History] Failed to load:", err);
+        setErrorMessage("Gagal memuat riwayat buku.");
+      });
+  }, []);
 
   // Parse custom model config files
   useEffect(() => {
@@ -363,7 +765,15 @@ export default function App() {
           weights.push('model.onnx');
         }
 
+        // Uploads of different models never share an id, even with the same architecture
+        const files = Array.from(customModelFiles.entries())
+          .map(([name, blob]) => `${name}:${blob.size}`)
+          .sort()
+          .join('|');
+        const name = config._name_or_path || arch;
+
         setModelConfig({
+          id: `${name}@${hashString(`${configText}\u0000${files}`)}`,
           arch,
           modelType,
           tokenizer: tokenizerInfo,
@@ -399,7 +809,29 @@ export default function App() {
   const pdfDocRef = useRef<pdfjsLib.PDFDocumentProxy | null>(null);
   const touchStartDistance = useRef<number | null>(null);
   const initialZoom = useRef<number>(1.2);
-  const translatorRef = useRef<any>(null);
+  const translatorWorkerRef = useRef<TranslatorWorker | null>(null);
+  const translatorRef = useRef<TranslatorWorker | null>(null); // Set once a model is loaded in the worker
+  const translatorHasDecoderRef = useRef(true);
+  const textPairsRef = useRef<TextPair[]>([]);
+  textPairsRef.current = textPairs;
+  // Each translation run takes a token; opening, closing or resetting a book
+  // moves it on so the old run's late updates are ignored
+  const runTokenRef = useRef(0);
+  const runDoneRef = useRef<Promise<void> | null>(null);
+  const sentenceListRef = useRef<VirtualListHandle | null>(null);
+  // Sentence the reader is at; translation is prioritised around it
+  const [focusIndex, setFocusIndex] = useState(0);
+  // Running jobs read the ref; the state only wakes lazy translation, so
+  // scrolling can update it less often
+  const focusIndexRef = useRef(0);
+  const moveFocus = (index: number) => {
+    focusIndexRef.current = index;
+    setFocusIndex(index);
+  };
+  // Translate pending sentences as the reader reaches them; off after a cancel
+  const [autoTranslate, setAutoTranslate] = useState(false);
+  const translationHistoryRef = useRef<HistoryEntry[]>([]);
+  translationHistoryRef.current = translationHistory;
 
   // IndexedDB Persistence for Custom Models
   useEffect(() => {
@@ -465,10 +897,10 @@ export default function App() {
   }, [customModelFiles]);
 
   useEffect(() => {
-    localStorage.setItem('isOfflineMode', isOfflineMode.toString());
+    localStorage.setItem('translation_provider', providerId);
     localStorage.setItem('modelSource', modelSource);
     localStorage.setItem('remoteModelId', remoteModelId);
-  }, [isOfflineMode, modelSource, remoteModelId]);
+  }, [providerId, modelSource, remoteModelId]);
 
   const loadOfflineModel = async (overrideFiles?: Map<string, Blob>): Promise<boolean> => {
     const filesToUse = overrideFiles || customModelFiles;
@@ -499,12 +931,6 @@ export default function App() {
     let modelId = '';
     if (modelSource === 'remote') {
       modelId = remoteModelId;
-      env.localModelPath = '';
-      env.allowRemoteModels = true;
-      env.allowLocalModels = false;
-      // Force Transformers.js to use the correct CDN and not fallback to current origin
-      env.remoteHost = 'https://huggingface.co';
-      env.remotePathTemplate = '{model}/resolve/{revision}/';
     } else if (modelSource === 'custom') {
       if (filesToUse.size === 0) {
         console.log("Custom model files not ready yet.");
@@ -567,13 +993,6 @@ export default function App() {
 
       // Transformers.js builds URL as: localModelPath + modelId + '/' + filename
       modelId = 'custom-model';
-      env.localModelPath = window.location.origin + '/';
-      env.allowLocalModels = true;
-      env.allowRemoteModels = false; // STRIKT: Jangan download apa-apa dari internet di mode Custom!
-
-      // Reset remote settings to prevent interference
-      env.remoteHost = '';
-      env.remotePathTemplate = '';
 
       // Auto-detect quantization based on filenames
       const isQuantized = Array.from(filesToUse.keys()).some(k =>
@@ -596,50 +1015,57 @@ export default function App() {
         k.toLowerCase().includes('quant') || k.toLowerCase().includes('uint8') || k.toLowerCase().includes('int8')
       ) : true;
 
-      const pipelineOptions: any = {
-        progress_callback: (data: any) => {
-          if (data.status === 'initiate') {
-            console.log(`[Transformers.js] Initiating: ${data.file}`);
-            const actionLabel = modelSource === 'remote' ? "Mengunduh" : "Memuat (LOKAL)";
-            setModelStatus(`${actionLabel}: ${data.file}`);
-            setProgressItems(prev => ({
-              ...prev,
-              [data.file]: { loaded: 0, total: 0, progress: 0 }
-            }));
-          } else if (data.status === 'progress') {
-            setProgressItems(prev => {
-              const next = { ...prev };
-              next[data.file] = {
-                loaded: data.loaded || 0,
-                total: data.total || 0,
-                progress: data.progress || 0
-              };
-
-              // Calculate overall progress
-              const items = Object.values(next);
-              if (items.length === 0) return next;
-
-              const totalProgress = items.reduce((acc, item) => acc + item.progress, 0) / items.length;
-              // Ensure it doesn't flicker backwards
-              setModelProgress(p => Math.max(p, totalProgress));
-              return next;
-            });
-          } else if (data.status === 'done') {
-            console.log(`[Transformers.js] Done: ${data.file}`);
-            const actionLabel = modelSource === 'remote' ? "Selesai mengunduh" : "Selesai memuat";
-            setModelStatus(`${actionLabel}: ${data.file}`);
-          } else if (data.status === 'ready') {
-            console.log(`[Transformers.js] Ready callback for: ${data.file}`);
-          }
-        },
-        quantized: isQuantized,
+      const handleProgress = (data: ModelProgressData) => {
+        if (!data.file) return;
+        const file = data.file;
+        if (data.status === 'initiate') {
+          console.log(`[Transformers.js] Initiating: ${data.file}`);
+          const actionLabel = modelSource === 'remote' ? "Mengunduh" : "Memuat (LOKAL)";
+          setModelStatus(`${actionLabel}: ${data.file}`);
+          setProgressItems(prev => ({
+            ...prev,
+            [file]: { loaded: 0, total: 0, progress: 0 }
+          }));
+        } else if (data.status === 'progress') {
+          setProgressItems(prev => {
+            const next = { ...prev };
+            next[file] = {
+              loaded: data.loaded || 0,
+              total: data.total || 0,
+              progress: data.progress || 0
+            };
+
+            // Calculate overall progress
+            const items = Object.values(next);
+            if (items.length === 0) return next;
+
+            const totalProgress = items.reduce((acc, item) => acc + item.progress, 0) / items.length;
+            // Ensure it doesn't flicker backwards
+            setModelProgress(p => Math.max(p, totalProgress));
+            return next;
+          });
+        } else if (data.status === 'done') {
+          console.log(`[Transformers.js] Done: ${data.file}`);
+          const actionLabel = modelSource === 'remote' ? "Selesai mengunduh" : "Selesai memuat";
+          setModelStatus(`${actionLabel}: ${data.file}`);
+        } else if (data.status === 'ready') {
+          console.log(`[Transformers.js] Ready callback for: ${data.file}`);
+        }
       };
 
-      const result = await pipeline('translation', modelId, pipelineOptions);
-
-      if (!result) throw new Error("Pipeline returned null atau undefined");
+      if (!translatorWorkerRef.current) {
+        translatorWorkerRef.current = createTranslatorWorker(msg => (window as any).__ADD_DEBUG_LOG__?.(msg));
+      }
+      const worker = translatorWorkerRef.current;
+      const { hasDecoder } = await worker.load({
+        modelId,
+        modelSource,
+        quantized: isQuantized,
+        files: modelSource === 'custom' ? filesToUse : undefined
+      }, handleProgress);
 
-      translatorRef.current = result;
+      translatorRef.current = worker;
+      translatorHasDecoderRef.current = hasDecoder;
       setLoadedModelId(modelId);
       console.log("[Transformers.js] Sukses: Model dimuat dan siap");
 
@@ -650,6 +1076,7 @@ export default function App() {
       setTimeout(() => setModelStatus(null), 3000);
       return true;
     } catch (error: any) {
+      if (error instanceof TranslationCancelledError) return false;
       console.error("[Transformers.js] Error details:", error);
       let errorMsg = error.message || "Model gagal dimuat.";
 
@@ -663,7 +1090,7 @@ export default function App() {
         }
       }
       setErrorMessage(errorMsg);
-      setIsOfflineMode(false);
+      setProviderId('gemini');
       setIsModelLoading(false);
       setModelStatus(null);
       setProgressItems({});
@@ -671,6 +1098,17 @@ export default function App() {
     }
   };
 
+  transformersRuntime = {
+    ensureLoaded: () => loadOfflineModel(),
+    getTranslator: () => translatorRef.current,
+    getModelHint: () => modelSource === 'custom'
+      ? `${modelConfig?.modelType} ${modelConfig?.tokenizer}`
+      : (loadedModelId || remoteModelId),
+    getModelId: () => modelSource === 'custom'
+      ? modelConfig?.id ?? null
+      : (loadedModelId || remoteModelId || null)
+  };
+
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedZoom(pdfZoom);
@@ -689,10 +1127,36 @@ export default function App() {
   }, [fileUrl]);
 
   useEffect(() => {
-    if (fileName && pdfPage > 0) {
-      localStorage.setItem(`pdf-progress-${fileName}`, pdfPage.toString());
+    if (bookId && pdfPage > 0) {
+      localStorage.setItem(`pdf-progress-${bookId}`, pdfPage.toString());
     }
-  }, [fileName, pdfPage]);
+  }, [bookId, pdfPage]);
+
+  // The PDF page or EPUB chapter in view moves the translation focus
+  useEffect(() => {
+    const pairs = textPairsRef.current;
+    if (pairs.length === 0 || (pairs[0].page === undefined && pairs[0].chapter === undefined)) return;
+    const index = pairs.findIndex(p => (p.endPage ?? p.page ?? p.chapter ?? 0) >= pdfPage);
+    if (index !== -1) moveFocus(index);
+  }, [pdfPage, textPairs.length]);
+
+  // Scrolling the sentence list moves it too
+  useEffect(() => {
+    if (activeTab !== 'translation' || textPairs.length === 0) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const onScroll = () => {
+      const index = sentenceListRef.current?.indexAtViewportCenter() ?? null;
+      if (index === null) return;
+      focusIndexRef.current = index;
+      clearTimeout(timer);
+      timer = setTimeout(() => setFocusIndex(index), 250);
+    };
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => {
+      window.removeEventListener('scroll', onScroll);
+      clearTimeout(timer);
+    };
+  }, [activeTab, textPairs.length]);
 
   // Sync daily token usage to localStorage
   useEffect(() => {
@@ -786,13 +1250,31 @@ export default function App() {
           const textContent = await page.getTextContent();
           if (!isMounted) return;
 
-          // @ts-ignore - TextLayer is a class in PDF.js v4+
-          const textLayer = new pdfjsLib.TextLayer({
-            textContentSource: textContent,
-            container: textLayerDiv,
-            viewport: displayViewport
-          });
-          await textLayer.render();
+          if (textContent.items.length === 0) {
+            // Scanned page: rebuild a text layer from the OCR word boxes so
+            // highlighting and selection sync behave like a real text layer
+            textPairsRef.current
+              .filter(p => p.page === pdfPage && p.words)
+              .flatMap(p => p.words!)
+              .forEach(word => {
+                const span = document.createElement('span');
+                span.textContent = word.text;
+                span.style.left = `${word.x0 * baseScale}px`;
+                span.style.top = `${word.y0 * baseScale}px`;
+                span.style.width = `${(word.x1 - word.x0) * baseScale}px`;
+                span.style.height = `${(word.y1 - word.y0) * baseScale}px`;
+                span.style.fontSize = `${(word.y1 - word.y0) * baseScale}px`;
+                textLayerDiv.appendChild(span);
+              });
+          } else {
+            // @ts-ignore - TextLayer is a class in PDF.js v4+
+            const textLayer = new pdfjsLib.TextLayer({
+              textContentSource: textContent,
+              container: textLayerDiv,
+              viewport: displayViewport
+            });
+            await textLayer.render();
+          }
           setTextLayerRenderedCount(prev => prev + 1);
         }
       } catch (error: any) {
@@ -829,10 +1311,7 @@ export default function App() {
 
       if (index !== -1) {
         setHoveredIndex(index);
-        const element = document.getElementById(`pair-${index}`);
-        if (element) {
-          element.scrollIntoView({ behavior: 'smooth', block: 'center' });
-        }
+        sentenceListRef.current?.scrollToIndex(index, { align: 'center', behavior: 'smooth' });
       }
     };
 
@@ -868,21 +1347,118 @@ export default function App() {
     }
   }, [hoveredIndex, pdfPage, pdfZoom, textLayerRenderedCount]);
 
-  const saveCurrentToHistory = (pairs: TextPair[], name: string, prog: number) => {
-    if (!name) return;
-    setTranslationHistory(prev => {
-      const filtered = prev.filter(h => h.fileName !== name);
-      return [{
-        fileName: name,
-        textPairs: pairs,
-        date: new Date().toLocaleString(),
-        progress: prog
-      }, ...filtered].slice(0, 50); // Keep last 50 entries
+  // Translation keeps going when storage fails; the user is told once per failure
+  const handleStorageError = (err: unknown) => {
+    console.error("[History] Failed to save:", err);
+    setErrorMessage(isQuotaError(err)
+      ? "Penyimpanan browser penuh. Progres tidak tersimpan — hapus beberapa riwayat buku atau Translation Memory."
+      : "Gagal menyimpan progres ke riwayat.");
+  };
+
+  // Glossary edits show right away; the IndexedDB write and the re-check of
+  // every pair wait until typing pauses, a field loses focus or the editor closes
+  const glossarySaveRef = useRef<{ bookId: string; entries: GlossaryEntry[]; timer: ReturnType<typeof setTimeout> } | null>(null);
+
+  const flushGlossary = () => {
+    const pending = glossarySaveRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    glossarySaveRef.current = null;
+    setCheckedGlossary(pending.entries);
+    const current = translationHistoryRef.current.find(h => h.id === pending.bookId);
+    if (current) {
+      const updated = { ...current, glossary: pending.entries };
+      translationHistoryRef.current = translationHistoryRef.current.map(h => h.id === updated.id ? updated : h);
+      setTranslationHistory(translationHistoryRef.current);
+      updateBook(updated, []).catch(handleStorageError);
+    }
+  };
+
+  const updateGlossary = (entries: GlossaryEntry[]) => {
+    glossaryRef.current = entries;
+    setGlossary(entries);
+    if (!bookId) return;
+    if (glossarySaveRef.current) clearTimeout(glossarySaveRef.current.timer);
+    glossarySaveRef.current = { bookId, entries, timer: setTimeout(flushGlossary, 600) };
+  };
+
+  const closeGlossary = () => {
+    flushGlossary();
+    setShowGlossary(false);
+  };
+
+  // Check results by original + translation, so a batch only re-checks the
+  // pairs it changed; patterns and results are rebuilt when the glossary changes
+  const glossaryCheckRef = useRef<{ glossary: GlossaryEntry[]; check: GlossaryChecker; results: Map<string, string> } | null>(null);
+
+  // Translations that miss a required glossary rendering, by pair index
+  const glossaryViolations = useMemo(() => {
+    const issues = new Map<number, string>();
+    if (checkedGlossary.length === 0) return issues;
+    if (glossaryCheckRef.current?.glossary !== checkedGlossary) {
+      glossaryCheckRef.current = { glossary: checkedGlossary, check: createGlossaryChecker(checkedGlossary), results: new Map() };
+    }
+    const { check, results } = glossaryCheckRef.current;
+    // Only results for the current pairs are carried over
+    const current = new Map<string, string>();
+    textPairs.forEach((pair, index) => {
+      if (pair.status !== 'completed' || pair.skipped) return;
+      const key = `${pair.original}\u0000${pair.translated}`;
+      let terms = results.get(key);
+      if (terms === undefined) terms = check(pair.original, pair.translated).join(', ');
+      current.set(key, terms);
+      if (terms) issues.set(index, terms);
     });
+    glossaryCheckRef.current.results = current;
+    return issues;
+  }, [textPairs, checkedGlossary]);
+
+  // Pass changedIndices to write only those sentences; otherwise the whole book is rewritten
+  const saveCurrentToHistory = (pairs: TextPair[], book: BookRef | null, prog: number, meta?: Partial<HistoryEntry>, changedIndices?: number[]) => {
+    if (!book) return;
+    const previous = translationHistoryRef.current.find(h => h.id === book.id);
+    const record: HistoryEntry = {
+      ...previous,
+      sourceLang,
+      targetLang,
+      ...meta,
+      id: book.id,
+      fileName: book.fileName,
+      sentenceCount: pairs.length,
+      date: new Date().toLocaleString(),
+      updatedAt: Date.now(),
+      progress: prog
+    };
+    translationHistoryRef.current = [record, ...translationHistoryRef.current.filter(h => h.id !== book.id)];
+    setTranslationHistory(translationHistoryRef.current);
+
+    const write = changedIndices
+      ? updateBook(record, changedIndices.map(index => ({ index, pair: pairs[index] })))
+      : saveBook(record, pairs);
+    write.catch(handleStorageError);
+  };
+
+  // Sentences changed by a batch or an edit are written once the new pairs are
+  // committed; state updaters may run twice, so they never save themselves
+  const pendingSaveRef = useRef<{ book: BookRef; meta?: Partial<HistoryEntry>; indices: Set<number> } | null>(null);
+  const queueSave = (book: BookRef | null, indices: number[], meta?: Partial<HistoryEntry>) => {
+    if (!book) return;
+    const pending = pendingSaveRef.current;
+    if (pending && pending.book.id === book.id) {
+      indices.forEach(i => pending.indices.add(i));
+      pending.meta = { ...pending.meta, ...meta };
+    } else {
+      pendingSaveRef.current = { book, meta, indices: new Set(indices) };
+    }
   };
 
-  const exportHistory = () => {
-    const data = JSON.stringify(translationHistory, null, 2);
+  const exportHistory = async () => {
+    // Same shape as the old localStorage history, so older exports stay importable
+    const books = await Promise.all(translationHistory.map(async ({ sentenceCount, updatedAt, ...book }) => ({
+      ...book,
+      textPairs: await loadBookSentences<TextPair>(book.id)
+    })));
+    const data = JSON.stringify(books, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -892,6 +1468,127 @@ export default function App() {
     URL.revokeObjectURL(url);
   };
 
+  const exportSubtitles = (mode: SubtitleExportMode) => {
+    const format = fileName ? getSubtitleFormat(fileName) : null;
+    if (!format || !fileName) return;
+
+    const content = serializeSubtitles(
+      textPairs
+        .filter(p => p.cue)
+        .map(p => ({
+          cue: { ...p.cue!, text: p.original },
+          translated: p.status === 'completed' ? p.translated : undefined
+        })),
+      format,
+      mode
+    );
+    const blob = new Blob([content], { type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName.replace(/\.(srt|vtt)$/i, '')}.${targetLang}${mode === 'bilingual' ? '.dual' : ''}.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const openExport = () => {
+    setExportTitle(fileName ? fileName.replace(/\.[^.]+$/, '') : 'Buku');
+    setShowExport(true);
+    listUploadedFonts().then(setUploadedFonts).catch(() => setUploadedFonts([]));
+  };
+
+  const updateExportSettings = (changes: Partial<typeof exportSettings>) => {
+    const next = { ...exportSettings, ...changes };
+    setExportSettings(next);
+    localStorage.setItem('export_settings', JSON.stringify(next));
+  };
+
+  const exportEpub = () => {
+    if (textPairs.length === 0) return;
+    try {
+      const title = exportTitle.trim() || 'Buku';
+      const data = buildEpub(textPairs, {
+        title,
+        author: exportSettings.author.trim() || undefined,
+        identifier: `urn:reader:${bookId || Date.now()}:${targetLang}`,
+        sourceLang,
+        targetLang,
+        layout: exportSettings.layout,
+        chapterMode: exportSettings.chapterMode,
+        pagesPerChapter: exportSettings.pagesPerChapter
+      });
+      const blob = new Blob([data], { type: 'application/epub+zip' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${title}.${targetLang}.epub`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('EPUB export failed', err);
+      setErrorMessage(`Gagal membuat EPUB: ${err?.message || err}`);
+    }
+  };
+
+  const exportPdf = async () => {
+    if (textPairs.length === 0 || isExporting) return;
+    setIsExporting(true);
+    try {
+      const title = exportTitle.trim() || 'Buku';
+      const data = await buildPdf(textPairs, {
+        title,
+        author: exportSettings.author.trim() || undefined,
+        sourceLang,
+        targetLang,
+        layout: exportSettings.pdfLayout,
+        pageSize: exportSettings.pageSize,
+        marginMm: exportSettings.marginMm,
+        fontSize: exportSettings.fontSize,
+        originalFont: exportSettings.originalFont || undefined,
+        translationFont: exportSettings.translationFont || undefined
+      });
+      const blob = new Blob([data], { type: 'application/pdf' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${title}.${sourceLang}-${targetLang}.pdf`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      console.error('PDF export failed', err);
+      setErrorMessage(`Gagal membuat PDF: ${err?.message || err}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const uploadFonts = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    input.accept = '.ttf,.otf';
+    input.onchange = async (e: any) => {
+      const files: File[] = Array.from(e.target.files || []);
+      if (files.length === 0) return;
+      try {
+        await saveFontFiles(files);
+        setUploadedFonts(await listUploadedFonts());
+      } catch (err: any) {
+        setErrorMessage(`Gagal menyimpan font: ${err?.message || err}`);
+      }
+    };
+    input.click();
+  };
+
+  const removeFont = async (name: string) => {
+    await deleteFont(name);
+    setUploadedFonts(await listUploadedFonts());
+    updateExportSettings({
+      originalFont: exportSettings.originalFont === name ? '' : exportSettings.originalFont,
+      translationFont: exportSettings.translationFont === name ? '' : exportSettings.translationFont
+    });
+  };
+
   const importHistory = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -900,20 +1597,27 @@ export default function App() {
       const file = e.target.files?.[0];
       if (!file) return;
       const reader = new FileReader();
-      reader.onload = (re) => {
+      reader.onload = async (re) => {
+        let imported: any;
         try {
-          const imported = JSON.parse(re.target?.result as string);
-          if (Array.isArray(imported)) {
-            setTranslationHistory(prev => {
-              const merged = [...imported, ...prev];
-              // Remove duplicates by fileName
-              const unique = Array.from(new Map(merged.map(item => [item.fileName, item])).values()) as HistoryEntry[];
-              return unique.slice(0, 50);
-            });
-            alert("History berhasil diimpor!");
-          }
+          imported = JSON.parse(re.target?.result as string);
         } catch (err) {
           alert("Gagal mengimpor: File tidak valid.");
+          return;
+        }
+        if (!Array.isArray(imported)) return;
+        try {
+          const now = Date.now();
+          for (const [i, entry] of imported.entries()) {
+            if (!entry?.fileName || !Array.isArray(entry.textPairs)) continue;
+            const { textPairs, ...meta } = entry;
+            // Imported books overwrite local ones with the same id
+            await saveBook({ ...meta, id: entry.id || entry.fileName, sentenceCount: textPairs.length, updatedAt: now - i }, textPairs);
+          }
+          setTranslationHistory(await listBooks());
+          alert("History berhasil diimpor!");
+        } catch (err) {
+          handleStorageError(err);
         }
       };
       reader.readAsText(file);
@@ -924,6 +1628,8 @@ export default function App() {
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
+    await supersedeRun('pause');
+    setAutoTranslate(modelSource !== 'custom');
 
     // Clean up old URL and document
     if (fileUrl) URL.revokeObjectURL(fileUrl);
@@ -941,8 +1647,39 @@ export default function App() {
     setErrorMessage(null);
     setActiveTab('translation');
 
+    const id = await hashFile(file);
+    const book: BookRef = { id, fileName: file.name };
+    setBookId(id);
+    // The previous run has saved its job by now, so a job paused on this book
+    // comes back even when the same book is opened again
+    setPausedJob(loadJob(id));
+
+    // Records from before content hashing are keyed by file name: adopt the
+    // one with this name the first time the file is opened again
+    let history = translationHistoryRef.current;
+    const legacy = history.find(h => isLegacyBookRecord(h) && h.fileName === file.name);
+    if (legacy && !history.some(h => h.id === id)) {
+      try {
+        await rekeyBook(legacy.id, id);
+        const legacyProgress = localStorage.getItem(`pdf-progress-${legacy.id}`);
+        if (legacyProgress) localStorage.setItem(`pdf-progress-${id}`, legacyProgress);
+        localStorage.removeItem(`pdf-progress-${legacy.id}`);
+        history = history.map(h => h.id === legacy.id ? { ...h, id } : h);
+        translationHistoryRef.current = history;
+        setTranslationHistory(history);
+      } catch (err) {
+        console.error("[History] Failed to migrate legacy record:", err);
+      }
+    }
+
+    const bookGlossary = history.find(h => h.id === id)?.glossary || [];
+    flushGlossary();
+    glossaryRef.current = bookGlossary;
+    setGlossary(bookGlossary);
+    setCheckedGlossary(bookGlossary);
+
     // Load saved progress
-    const savedProgress = localStorage.getItem(`pdf-progress-${file.name}`);
+    const savedProgress = localStorage.getItem(`pdf-progress-${id}`);
     if (savedProgress) {
       const page = parseInt(savedProgress, 10);
       setPdfPage(page);
@@ -960,38 +1697,105 @@ export default function App() {
       console.log("Processing file:", file.name, file.type);
 
       // Check history first
-      const existing = translationHistory.find(h => h.fileName === file.name);
-      if (existing) {
-        setTextPairs(existing.textPairs);
+      const existing = history.find(h => h.id === id);
+      const existingPairs = existing ? await loadBookSentences<TextPair>(existing.id) : [];
+      if (existing && existingPairs.length > 0) {
+        const chapters = existingPairs.reduce((max, p) => Math.max(max, p.chapter || 0), 0);
+        if (chapters > 0) {
+          setNumPages(chapters);
+          if (savedProgress) setTimeout(() => scrollToChapter(parseInt(savedProgress, 10)), 300);
+        }
+        setDetectedLang(existing.detectedLang || null);
+        setLanguageWarningDismissed(false);
+        if (existing.sourceLang) setSourceLang(existing.sourceLang);
+        if (existing.targetLang) setTargetLang(existing.targetLang);
+        setTextPairs(existingPairs);
         setProgress(existing.progress);
         setIsProcessing(false);
         return;
       }
 
+      // The book language is detected on the raw text before segmentation, so
+      // sentences are split with that language's rules rather than the last book's
+      const language = { source: sourceLang, detection: null as BookDetection | null, detected: false };
+      const resolveLanguage = (samples: string[]) => {
+        if (!language.detected) {
+          language.detected = true;
+          const detection = detectBookLanguage(samples.filter(sample => sample.trim().length > 0));
+          language.detection = detection;
+          if (detection && detection.confidence >= 0.6 && detection.lang !== targetLang) {
+            language.source = detection.lang;
+          }
+        }
+        return language.source;
+      };
+
       let initialPairs: TextPair[] = [];
 
       if (file.type === 'application/pdf') {
-        initialPairs = await extractSentencesFromPDF(file);
+        initialPairs = await extractSentencesFromPDF(file, resolveLanguage);
+      } else if (getSubtitleFormat(file.name)) {
+        // One pair per cue; cues are never re-segmented so timing stays exact
+        const cues = parseSubtitles(await file.text());
+        initialPairs = cues.map(({ text, ...cue }) => ({
+          original: text,
+          translated: '',
+          status: 'pending',
+          cue
+        }));
+      } else if (isEpubFile(file)) {
+        initialPairs = await extractSentencesFromEPUB(file, resolveLanguage);
+        if (savedProgress) setTimeout(() => scrollToChapter(parseInt(savedProgress, 10)), 300);
       } else {
         const fullText = await file.text();
         if (!fullText || fullText.trim().length === 0) {
           throw new Error("File kosong atau tidak bisa dibaca.");
         }
-        const sentences = splitIntoSentences(fullText);
-        initialPairs = sentences.map(s => ({
-          original: s,
-          translated: '',
-          status: 'pending'
-        }));
+        // Blank lines separate paragraphs
+        const paragraphs = fullText.split(/\n\s*\n/);
+        const lang = resolveLanguage(paragraphs);
+        initialPairs = paragraphs.flatMap(paragraph =>
+          segmentSentences(paragraph, lang).map((s, j): TextPair => ({
+            original: s,
+            translated: '',
+            status: 'pending',
+            ...(j === 0 ? { paragraphStart: true } : {})
+          }))
+        );
       }
 
       if (initialPairs.length === 0) {
         throw new Error("Tidak ada teks yang ditemukan dalam file.");
       }
 
+      // Subtitles aren't segmented, so their cues are the sample; mixed books
+      // get per-sentence tags
+      const bookSourceLang = resolveLanguage(initialPairs.map(p => p.original));
+      const detection = language.detection;
+      const bookDetectedLang = detection
+        ? { code: detection.lang, confidence: detection.confidence, mixed: detection.mixed }
+        : null;
+      if (bookSourceLang !== sourceLang) setSourceLang(bookSourceLang);
+      if (detection) {
+        console.log("[LangDetect] Book language:", detection);
+        if (detection.mixed) {
+          initialPairs = initialPairs.map(p => {
+            const result = detectLanguage(p.original);
+            return result && result.confidence >= 0.5 ? { ...p, lang: result.lang } : p;
+          });
+        }
+      }
+      setDetectedLang(bookDetectedLang);
+      setLanguageWarningDismissed(false);
+
       setTextPairs(initialPairs);
+      saveCurrentToHistory(initialPairs, book, 0, {
+        sourceLang: bookSourceLang,
+        targetLang,
+        detectedLang: bookDetectedLang || undefined
+      });
       if (modelSource !== 'custom') {
-        await translateInBatches(initialPairs);
+        await translateInBatches(initialPairs, { source: bookSourceLang, target: targetLang }, book);
       }
     } catch (error: any) {
       console.error("Error processing file:", error);
@@ -1001,7 +1805,7 @@ export default function App() {
     }
   };
 
-  const extractSentencesFromPDF = async (file: File): Promise<TextPair[]> => {
+  const extractSentencesFromPDF = async (file: File, resolveLanguage: (samples: string[]) => string): Promise<TextPair[]> => {
     const arrayBuffer = await file.arrayBuffer();
     const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
     const pdf = await loadingTask.promise;
@@ -1012,210 +1816,656 @@ export default function App() {
     const pagePromises = Array.from({ length: pdf.numPages }, async (_, i) => {
       const page = await pdf.getPage(i + 1);
       const content = await page.getTextContent();
-      const pageText = content.items.map((item: any) => item.str).join(' ');
+      const { width, height } = page.getViewport({ scale: 1 });
+      const items = content.items.filter((item: any) => typeof item.str === 'string') as RawTextItem[];
+      const pageText = items.map(item => item.str).join(' ');
 
       // Update progress for each page as it completes
       setProgress(Math.round(((i + 1) / pdf.numPages) * 30));
 
-      return { pageNum: i + 1, text: pageText };
+      return { pageNum: i + 1, text: pageText, layout: { items, width, height } };
     });
 
     const pageResults = await Promise.all(pagePromises);
 
+    // Rebuild reading order (columns, headers/footers, hyphenation) across all pages
+    const pageParagraphs = layoutPages(pageResults.map(r => r.layout));
+
+    // Pages without a text layer are scans; recognise them locally. OCR needs
+    // the book's language, so it is detected on the text pages first. A fully
+    // scanned book is detected on its first page, read with the default language
+    const scannedPages = pageResults.filter(r => r.text.trim().length === 0).map(r => r.pageNum);
+    let ocrResults = new Map<number, OcrPageResult>();
+    let lang: string;
+    if (scannedPages.length < pdf.numPages) {
+      lang = resolveLanguage(pageParagraphs.flat());
+      if (scannedPages.length > 0) ocrResults = await recognizeScannedPages(pdf, scannedPages, false, lang);
+    } else {
+      const probeLang = defaultSourceLang();
+      const probe = await recognizeScannedPages(pdf, scannedPages.slice(0, 1), true, probeLang);
+      lang = resolveLanguage(Array.from(probe.values(), r => r.text));
+      // Without data for the detected language the default one keeps reading
+      const ocrLang = await isOcrLanguageAvailable(toTesseractCode(lang)) ? lang : probeLang;
+      const rest = toTesseractCode(ocrLang) === toTesseractCode(probeLang) ? scannedPages.slice(1) : scannedPages;
+      ocrResults = new Map([...probe, ...await recognizeScannedPages(pdf, rest, true, ocrLang)]);
+    }
+    const split = (text: string) => segmentSentences(text, lang);
     const pairs: TextPair[] = [];
 
-    for (const result of pageResults) {
-      const pageSentences = splitIntoSentences(result.text);
-      pageSentences.forEach(s => {
+    // Text pages are segmented as one stream so sentences survive page breaks;
+    // OCR pages interrupt the stream and are segmented on their own.
+    let run: PageParagraphs[] = [];
+    const flushRun = () => {
+      flowSentencesAcrossPages(run, split).forEach(s => {
+        pairs.push({
+          original: s.text,
+          translated: '',
+          status: 'pending',
+          page: s.page,
+          ...(s.endPage !== s.page ? { endPage: s.endPage } : {}),
+          ...(s.paragraphStart ? { paragraphStart: true } : {})
+        });
+      });
+      run = [];
+    };
+
+    for (const [i, result] of pageResults.entries()) {
+      const ocr = ocrResults.get(result.pageNum);
+      if (!ocr) {
+        run.push({ page: result.pageNum, paragraphs: pageParagraphs[i] });
+        continue;
+      }
+
+      flushRun();
+      const pageSentences = split(ocr.text);
+      const sentenceWords = alignWordsToSentences(pageSentences, ocr.words);
+      pageSentences.forEach((s, j) => {
         pairs.push({
           original: s,
           translated: '',
           status: 'pending',
-          page: result.pageNum
+          page: result.pageNum,
+          words: sentenceWords[j],
+          ...(j === 0 ? { paragraphStart: true } : {})
         });
       });
     }
+    flushRun();
 
     return pairs;
   };
 
-  const splitIntoSentences = (text: string): string[] => {
-    // Faster regex-based splitting
-    return text
-      .split(/(?<=[.?!])\s+/)
-      .map(s => s.trim())
-      .filter(s => s.length > 5);
-  };
-
-  const translateInBatches = async (pairs: TextPair[]) => {
-    const batchSize = 12; // Increased batch size for fewer API calls
-    const total = pairs.length;
+  const recognizeScannedPages = async (
+    pdf: pdfjsLib.PDFDocumentProxy,
+    pageNums: number[],
+    required: boolean,
+    lang: string
+  ): Promise<Map<number, OcrPageResult>> => {
+    const results = new Map<number, OcrPageResult>();
+    if (pageNums.length === 0) return results;
+    const ocrLang = toTesseractCode(lang);
+
+    if (!(await isOcrLanguageAvailable(ocrLang))) {
+      const msg = `PDF hasil scan terdeteksi, tetapi data OCR "${ocrLang}.traineddata" belum tersedia. Unggah di Settings → OCR.`;
+      if (required) throw new Error(msg);
+      console.warn("[OCR]", msg);
+      return results;
+    }
 
-    setIsProcessing(true);
-    setErrorMessage(null);
+    setModelStatus(`Memuat OCR (${ocrLang})...`);
+    const engine = await createOcrEngine(ocrLang, (status, p) => {
+      if (status.startsWith('loading') || status.startsWith('initializing')) {
+        setModelProgress(Math.round(p * 100));
+      }
+    });
 
-    for (let i = 0; i < total; i += batchSize) {
-      const currentBatch = pairs.slice(i, i + batchSize);
+    try {
+      for (let i = 0; i < pageNums.length; i++) {
+        setModelStatus(`OCR halaman ${pageNums[i]} (${i + 1}/${pageNums.length})...`);
+        setModelProgress(Math.round((i / pageNums.length) * 100));
+        const page = await pdf.getPage(pageNums[i]);
+        results.set(pageNums[i], await engine.recognizePage(page));
+        setProgress(30 + Math.round(((i + 1) / pageNums.length) * 20));
+      }
+    } finally {
+      await engine.terminate();
+      setModelStatus(null);
+      setModelProgress(0);
+    }
+    return results;
+  };
 
-      const batchEta = isOfflineMode
-        ? Math.ceil(((performanceMetrics.avgLatency || 500) * currentBatch.length) / 1000)
-        : 3; // Gemini estimate
+  const extractSentencesFromEPUB = async (file: File, resolveLanguage: (samples: string[]) => string): Promise<TextPair[]> => {
+    const book = await parseEpub(file);
+    setNumPages(book.chapters.length);
+    const lang = resolveLanguage(book.chapters.flatMap(chapter => chapter.paragraphs));
 
-      setTextPairs(prev => {
-        const next = [...prev];
-        for (let j = i; j < Math.min(i + batchSize, total); j++) {
-          next[j] = { ...next[j], status: 'translating', eta: batchEta };
-        }
-        return next;
+    const pairs: TextPair[] = [];
+    book.chapters.forEach((chapter, i) => {
+      chapter.paragraphs.forEach(paragraph => {
+        segmentSentences(paragraph, lang).forEach((s, j) => {
+          pairs.push({
+            original: s,
+            translated: '',
+            status: 'pending',
+            chapter: chapter.index,
+            chapterTitle: chapter.title,
+            ...(j === 0 ? { paragraphStart: true } : {})
+          });
+        });
       });
+      setProgress(Math.round(((i + 1) / book.chapters.length) * 30));
+    });
 
-      try {
-        let translations: string[] = [];
-
-        if (isOfflineMode) {
-          if (!translatorRef.current) {
-            const success = await loadOfflineModel();
-            if (!success) {
-              // Error message is already set by loadOfflineModel
-              setTextPairs(prev => {
-                const next = [...prev];
-                for (let j = i; j < Math.min(i + batchSize, total); j++) {
-                  next[j].status = 'error';
-                }
-                return next;
-              });
-              setIsProcessing(false);
-              return; // Stop processing batches if model failed
-            }
-          }
+    return pairs;
+  };
 
-          if (translatorRef.current) {
-            // Check for potential issues with custom models (e.g. missing decoder)
-            if (modelSource === 'custom' && !translatorRef.current.model?.decoder) {
-              const fileList = Array.from(customModelFiles.keys()).join(', ');
-              console.warn("[Transformers.js] Decoder missing in pipeline. Files:", fileList);
-              // We don't throw yet, as some models might be combined, but we log it.
-            }
+  const scrollToChapter = (chapter: number) => {
+    setPdfPage(chapter);
+    const index = textPairsRef.current.findIndex(p => p.chapter === chapter);
+    if (index !== -1) {
+      sentenceListRef.current?.scrollToIndex(index, { align: 'start', behavior: 'smooth' });
+    }
+  };
 
-            const start = performance.now();
-            const results = await translatorRef.current(currentBatch.map(p => p.original), {
-              max_new_tokens: 256,
-            });
-            const end = performance.now();
-            const latency = end - start;
+  const runTranslation = async (pairs: TextPair[], langs?: { source: string; target: string }, bookRef?: BookRef, options?: TranslateRunOptions) => {
+    const provider = getProvider(options?.providerId ?? providerId);
+    if (!provider) return;
+    const runToken = ++runTokenRef.current;
+    // A run superseded by another book still saves its job record but leaves the screen alone
+    const isCurrent = () => runTokenRef.current === runToken;
+    const setPairs = (update: (prev: TextPair[]) => TextPair[]) => {
+      if (isCurrent()) setTextPairs(update);
+    };
+    const settings = providerSettings[provider.id] || provider.defaultSettings();
+    const batchSize = provider.capabilities.batching ? provider.capabilities.maxBatchSize : 1;
+    // Full runs pick up whatever hasn't been attempted yet; failures are retried on request.
+    // Human edits are never overwritten
+    const order = (options?.indices
+      ? [...options.indices].sort((a, b) => a - b)
+      : pairs.flatMap((p, j) => p.status === 'pending' ? [j] : [])
+    ).filter(j => !isHumanEdited(pairs[j]));
+    // Partial runs cover all their sentences; full runs stay near the reader
+    // unless background translation is on
+    const background = !!options?.indices || backgroundTranslation;
+    const priorityWindow = prefetchWindow(prefetchSize);
+    let remaining = order;
+    // Completed translations stay in place until their replacement succeeds
+    const previous = new Map<number, string>();
+    for (const j of order) {
+      if (pairs[j].status === 'completed' && pairs[j].translated) previous.set(j, pairs[j].translated);
+    }
+    const source = langs?.source || sourceLang;
+    const target = langs?.target || targetLang;
+    const book = bookRef || (bookId && fileName ? { id: bookId, fileName } : null);
+    const engine = provider.engineId(settings);
+    // Without a known model, translations can't be told apart by engine
+    const useMemory = engine !== null;
+    const memoryScope = { source, target, engine: engine ?? provider.id };
+    // Sentences tagged with another language in a mixed book are sent as that language
+    const sourceOf = (j: number) => pairs[j].lang && pairs[j].lang !== target ? pairs[j].lang! : source;
+    const useContext = provider.capabilities.context && (contextSize > 0 || contextFollowing > 0);
+    // Translations finished during this run, which textPairsRef may not show yet
+    const finished = new Map<number, string>();
+    let prepared = false;
+
+    // Index of the first sentence of the chapter/paragraph containing `index`
+    const unitStart = (index: number) => {
+      let k = index;
+      while (k > 0) {
+        if (pairs[k].chapter !== pairs[k - 1].chapter) break;
+        if (contextBoundary === 'paragraph' && pairs[k].paragraphStart) break;
+        k--;
+      }
+      return k;
+    };
 
-            translations = results && Array.isArray(results)
-              ? results.map((r: any) => r.translation_text)
-              : [];
+    const buildContext = (first: number, last: number): TranslationContext => {
+      const before: TranslationContext['before'] = [];
+      const start = unitStart(first);
+      for (let k = first - 1; k >= start && before.length < contextSize; k--) {
+        const current = textPairsRef.current[k];
+        const translated = finished.get(k) ?? (current?.status === 'completed' ? current.translated : undefined);
+        if (!translated) break;
+        before.unshift({ original: pairs[k].original, translated });
+      }
+      const after: string[] = [];
+      for (let k = last + 1; k < pairs.length && after.length < contextFollowing; k++) {
+        if (pairs[k].chapter !== pairs[last].chapter) break;
+        if (contextBoundary === 'paragraph' && pairs[k].paragraphStart) break;
+        after.push(pairs[k].original);
+      }
+      return { before, after };
+    };
 
-            if (translations.length === 0) {
-              console.warn("[Transformers.js] Hasil terjemahan kosong atau tidak valid.");
-            }
+    // The overall bar only tracks fresh books translated in one go; other runs
+    // report through completed counts
+    const reportProgress = () => {
+      if (isCurrent() && background && order.length === pairs.length) {
+        setProgress(50 + Math.round(((order.length - remaining.length) / order.length) * 50));
+      }
+    };
 
-            // Update performance metrics
-            setPerformanceMetrics(prev => {
-              const newHistory = [...prev.history, {
-                time: Date.now(),
-                count: currentBatch.length,
-                latency
-              }].slice(-50);
-
-              const totalLat = newHistory.reduce((acc, h) => acc + h.latency, 0);
-              const totalCount = newHistory.reduce((acc, h) => acc + h.count, 0);
-
-              return {
-                avgLatency: totalLat / totalCount,
-                totalSentences: prev.totalSentences + currentBatch.length,
-                history: newHistory,
-                lastBatchLatency: latency
-              };
-            });
-          } else {
-            throw new Error("Translator model not ready");
-          }
-        } else {
-          const apiKey = geminiApiKey;
-          if (!apiKey) {
-            setErrorMessage("API Key tidak ditemukan untuk mode Online.");
-            setIsProcessing(false);
+    const job = createTranslationJob();
+    // A retry during a paused job shouldn't make the paused job disappear
+    const suspended = book && !options?.resume ? loadJob(book.id) : null;
+    const persistJob = (status: TranslationJobRecord['status']) => {
+      if (!book) return;
+      saveJob({
+        bookId: book.id,
+        status,
+        providerId: provider.id,
+        source,
+        target,
+        indices: options?.indices ? remaining : undefined,
+        skipMemory: options?.skipMemory,
+        updatedAt: Date.now()
+      });
+    };
+    // Sentences of an aborted batch go back to how they were before the run
+    const markInterrupted = (indices: number[]) => {
+      setPairs(prev => {
+        const next = [...prev];
+        for (const j of indices) {
+          // The book may have been closed or replaced meanwhile
+          if (next[j]?.original !== pairs[j].original) continue;
+          const kept = previous.get(j);
+          next[j] = kept !== undefined
+            ? { ...next[j], translated: kept, status: 'completed' }
+            : { ...next[j], status: 'pending', eta: undefined };
+        }
+        return next;
+      });
+    };
+    let stopped = false;
+    // Sentences of an interrupted batch go back into the queue
+    const requeue = (indices: number[]) => {
+      remaining = [...remaining, ...indices].sort((a, b) => a - b);
+    };
+
+    const markFailed = (indices: number[]) => {
+      setPairs(prev => {
+        const next = [...prev];
+        for (const j of indices) {
+          const kept = previous.get(j);
+          next[j] = kept !== undefined
+            ? { ...next[j], translated: kept, status: 'completed' }
+            : { ...next[j], status: 'error' };
+        }
+        return next;
+      });
+      if (isCurrent() && indices.some(j => previous.has(j))) {
+        setErrorMessage(prev => prev || "Sebagian terjemahan ulang gagal; terjemahan sebelumnya dipertahankan.");
+      }
+    };
+
+    setIsProcessing(true);
+    setErrorMessage(null);
+    setActiveJob(job);
+    setPausedJob(null);
+
+    // A sentence is only completed with a translation that is verifiably its own;
+    // missing or unverified slots are marked as errors
+    const applyTranslations = (indices: number[], translations: (string | null)[], memory?: (MemoryMatch | null)[]) => {
+      setPairs(prev => {
+        const next = [...prev];
+        indices.forEach((pairIndex, index) => {
+          const t = translations[index];
+          if (t === null || t === undefined) {
+            const kept = previous.get(pairIndex);
+            next[pairIndex] = kept !== undefined
+              ? { ...next[pairIndex], translated: kept, status: 'completed' }
+              : { ...next[pairIndex], status: 'error' };
             return;
           }
-          const ai = new GoogleGenAI({ apiKey });
+          // Edited while its batch was in flight
+          if (isHumanEdited(next[pairIndex])) return;
+          const match = memory?.[index];
+          next[pairIndex] = withRevision({
+            ...next[pairIndex],
+            status: 'completed',
+            memory: match ? { kind: match.kind, similarity: match.similarity } : undefined
+          }, { text: t, origin: 'machine', engine: match ? 'memory' : memoryScope.engine, at: Date.now() });
+        });
+        return next;
+      });
+      // Save to history after each batch
+      if (isCurrent()) queueSave(book, indices, { sourceLang: source, targetLang: target });
+    };
 
-          const prompt = `Translate these sentences to Indonesian. Keep it natural. 
-          Return ONLY a JSON array of strings.
-          Sentences: ${JSON.stringify(currentBatch.map(p => p.original))}`;
+    while (remaining.length > 0) {
+      if (job.signal.aborted) {
+        stopped = true;
+        break;
+      }
+      // Re-read the focus every batch so a jump reprioritises right away
+      const picked = pickNextBatch(remaining, focusIndexRef.current, batchSize, priorityWindow, background);
+      // Around the reader everything is done; the rest waits until they get there
+      if (picked.length === 0) break;
+      // In mixed books a batch shares one source language; the others wait for the next batch
+      const batchSource = sourceOf(picked[0]);
+      const chunk = picked.filter(j => pairs[j].lang === target || sourceOf(j) === batchSource);
+      const batchScope = { ...memoryScope, source: batchSource };
+      remaining = removeFromQueue(remaining, chunk);
+      persistJob('running');
+
+      // Sentences already in the target language are kept as they are
+      const candidateIndices: number[] = [];
+      const skippedIndices: number[] = [];
+      for (const j of chunk) {
+        // Sentences edited by hand since the run started stay as they are
+        if (isHumanEdited(textPairsRef.current[j] ?? pairs[j])) continue;
+        (pairs[j].lang === target ? skippedIndices : candidateIndices).push(j);
+      }
 
-          const response = await ai.models.generateContent({
-            model: "gemini-1.5-flash-preview-0514",
-            contents: [{ parts: [{ text: prompt }] }],
-            config: {
-              responseMimeType: "application/json"
-            }
-          });
+      // Sentences the translation memory knows exactly never reach the provider.
+      // A similar sentence is not the same sentence: fuzzy hits leave the pair
+      // pending and only go to LLM providers as a reference
+      const matches: (MemoryMatch | null)[] = options?.skipMemory || !useMemory
+        ? candidateIndices.map(() => null)
+        : await lookupTranslations(
+          candidateIndices.map(j => pairs[j].original),
+          batchScope,
+          provider.capabilities.context ? memoryFuzzyThreshold : 1
+        ).catch((err) => {
+          console.warn("[TM] Lookup failed:", err);
+          return candidateIndices.map(() => null);
+        });
+      const isExact = (m: MemoryMatch | null): m is MemoryMatch => m?.kind === 'exact';
+      const memoryIndices = candidateIndices.filter((_, k) => isExact(matches[k]));
+      const memoryMatches = matches.filter(isExact);
+      const batchIndices = candidateIndices.filter((_, k) => !isExact(matches[k]));
+      const currentBatch = batchIndices.map(j => pairs[j]);
+      const references = matches
+        .filter((m): m is MemoryMatch => m?.kind === 'fuzzy')
+        .map(m => ({ original: m.source, translated: m.translation }));
+
+      const batchEta = Math.ceil(((performanceMetrics.avgLatency || provider.estimatedLatencyMs) * currentBatch.length) / 1000);
+
+      setPairs(prev => {
+        const next = [...prev];
+        for (const j of batchIndices) {
+          next[j] = { ...next[j], status: 'translating', eta: batchEta };
+        }
+        for (const j of skippedIndices) {
+          next[j] = { ...next[j], translated: next[j].original, status: 'completed', skipped: true };
+        }
+        return next;
+      });
+      if (skippedIndices.length > 0 && isCurrent()) {
+        queueSave(book, skippedIndices, { sourceLang: source, targetLang: target });
+      }
 
-          translations = JSON.parse(response.text || "[]");
-
-          // Update token usage
-          if (response.usageMetadata) {
-            const { promptTokenCount = 0, candidatesTokenCount = 0, totalTokenCount = 0 } = response.usageMetadata;
-            setTokenUsage(prev => ({
-              prompt: prev.prompt + promptTokenCount,
-              candidates: prev.candidates + candidatesTokenCount,
-              total: prev.total + totalTokenCount
-            }));
-            setTokenUsageDaily((prev: number) => prev + totalTokenCount);
-          }
+      if (memoryIndices.length > 0) {
+        applyTranslations(memoryIndices, memoryMatches.map(m => m.translation), memoryMatches);
+        memoryIndices.forEach((j, k) => finished.set(j, memoryMatches[k].translation));
+      }
+
+      if (currentBatch.length === 0) {
+        reportProgress();
+        continue;
+      }
+
+      if (!prepared) {
+        try {
+          await provider.prepare(settings);
+          prepared = true;
+        } catch (error: any) {
+          // Providers that report their own failure (e.g. model loading) leave a message already
+          if (isCurrent()) setErrorMessage(prev => prev || error.message);
+          markFailed(batchIndices);
+          requeue(batchIndices);
+          stopped = true;
+          break;
+        }
+        if (job.signal.aborted) {
+          markInterrupted(batchIndices);
+          requeue(batchIndices);
+          stopped = true;
+          break;
         }
+      }
 
-        setTextPairs(prev => {
-          const next = [...prev];
-          translations.forEach((t: string, index: number) => {
-            const pairIndex = i + index;
-            if (pairIndex < total) {
-              next[pairIndex] = { ...next[pairIndex], translated: t, status: 'completed' };
-            }
-          });
+      try {
+        // Check for potential issues with custom models (e.g. missing decoder)
+        if (provider.id === 'transformers' && modelSource === 'custom' && !translatorHasDecoderRef.current) {
+          const fileList = Array.from(customModelFiles.keys()).join(', ');
+          console.warn("[Transformers.js] Decoder missing in pipeline. Files:", fileList);
+          // We don't throw yet, as some models might be combined, but we log it.
+        }
 
-          // Save to history after each batch
-          const completedCount = next.filter(p => p.status === 'completed').length;
-          const currentProg = Math.round((completedCount / next.length) * 100);
-          setProgress(currentProg);
-          saveCurrentToHistory(next, fileName || '', currentProg);
+        const { translations, latency, usage } = await provider.translate({
+          texts: currentBatch.map(p => p.original),
+          source: batchSource,
+          target,
+          context: useContext ? buildContext(batchIndices[0], batchIndices[batchIndices.length - 1]) : undefined,
+          glossary: glossaryForTexts(currentBatch.map(p => p.original), glossaryRef.current),
+          references: references.length > 0 ? references : undefined,
+          signal: job.signal
+        }, settings);
+        batchIndices.forEach((j, k) => {
+          const t = translations[k];
+          if (t) finished.set(j, t);
+        });
 
-          return next;
+        // Update performance metrics
+        setPerformanceMetrics(prev => {
+          const newHistory = [...prev.history, {
+            time: Date.now(),
+            count: currentBatch.length,
+            latency
+          }].slice(-50);
+
+          const totalLat = newHistory.reduce((acc, h) => acc + h.latency, 0);
+          const totalCount = newHistory.reduce((acc, h) => acc + h.count, 0);
+
+          return {
+            avgLatency: totalLat / totalCount,
+            totalSentences: prev.totalSentences + currentBatch.length,
+            history: newHistory,
+            lastBatchLatency: latency
+          };
         });
 
+        // Update token usage
+        if (usage) {
+          setTokenUsage(prev => ({
+            prompt: prev.prompt + usage.prompt,
+            candidates: prev.candidates + usage.candidates,
+            total: prev.total + usage.total
+          }));
+          // The daily counter tracks the Gemini free-tier quota only
+          if (provider.id === 'gemini') setTokenUsageDaily((prev: number) => prev + usage.total);
+        }
+
+        applyTranslations(batchIndices, translations);
+
+        if (useMemory) {
+          storeTranslations(
+            currentBatch.map((p, k) => ({ source: p.original, translation: translations[k] ?? '' })),
+            batchScope
+          ).catch(err => console.warn("[TM] Failed to store translations:", err));
+        }
+
       } catch (error: any) {
+        if (job.signal.aborted || isAbortError(error)) {
+          markInterrupted(batchIndices);
+          requeue(batchIndices);
+          stopped = true;
+          break;
+        }
         console.error("Translation error:", error);
 
-        if (isOfflineMode) {
-          let msg = error.message || "Gagal menerjemahkan (Offline).";
-          if (msg.includes("attention_mask")) {
-            msg = "Error Model: Input 'attention_mask' hilang. Pastikan Anda sudah mengunggah file DECODER (.onnx) yang lengkap.";
-          }
-          setErrorMessage(msg);
-        } else if (error?.status === 429 || (error?.message && error.message.includes('429'))) {
-          setErrorMessage("Batas penggunaan API tercapai. Silakan coba lagi nanti.");
-        }
+        const msg = provider.describeError?.(error);
+        if (msg && isCurrent()) setErrorMessage(msg);
 
-        setTextPairs(prev => {
-          const next = [...prev];
-          for (let j = i; j < Math.min(i + batchSize, total); j++) {
-            next[j].status = 'error';
-          }
-          return next;
-        });
+        markFailed(batchIndices);
 
-        // Stop batching if we hit a quota error to avoid multiple error messages
-        if (error?.status === 429) break;
+        // Stop batching if we hit a quota error to avoid multiple error messages;
+        // the job stays paused so it can be resumed once the quota recovers
+        if (error?.status === 429) {
+          stopped = true;
+          break;
+        }
       }
 
-      setProgress(50 + Math.round((Math.min(i + batchSize, total) / total) * 50));
+      reportProgress();
+    }
+
+    // Anything but a finished or cancelled run leaves a paused job behind
+    const paused = stopped && job.stopReason() !== 'cancel';
+    if (book) {
+      if (paused) {
+        persistJob('paused');
+        if (isCurrent()) setPausedJob(loadJob(book.id));
+      } else if (suspended && options?.indices) {
+        saveJob(suspended);
+        if (isCurrent()) setPausedJob(suspended);
+      } else {
+        clearJob(book.id);
+      }
     }
+    setActiveJob(current => current === job ? null : current);
+    if (isCurrent()) setIsProcessing(false);
+  };
+
+  const translateInBatches = (...args: Parameters<typeof runTranslation>) => {
+    const run = runTranslation(...args);
+    runDoneRef.current = run.catch(() => undefined);
+    return run;
+  };
+
+  // Stops the running job before its book is replaced, closed or reset, and waits
+  // until it has wound down. Whatever it reports afterwards is dropped
+  const supersedeRun = async (stop: 'pause' | 'cancel') => {
+    runTokenRef.current++;
+    if (stop === 'pause') activeJob?.pause();
+    else activeJob?.cancel();
+    await runDoneRef.current;
+    setActiveJob(null);
+    setPausedJob(null);
     setIsProcessing(false);
   };
 
+  // Jobs are kept per book; one paused on another book doesn't hold this one back
+  const bookPausedJob = pausedJob && pausedJob.bookId === bookId ? pausedJob : null;
+
+  const resumeJob = () => {
+    if (!bookPausedJob || isProcessing) return;
+    setAutoTranslate(true);
+    translateInBatches(
+      textPairsRef.current,
+      { source: bookPausedJob.source, target: bookPausedJob.target },
+      undefined,
+      { indices: bookPausedJob.indices, providerId: bookPausedJob.providerId, skipMemory: bookPausedJob.skipMemory, resume: true }
+    );
+  };
+
+  const cancelPausedJob = () => {
+    if (pausedJob) clearJob(pausedJob.bookId);
+    setPausedJob(null);
+    setAutoTranslate(false);
+  };
+
+  // Manual changes to one sentence, saved the same way as a translated batch
+  const updatePair = (index: number, update: (pair: TextPair) => TextPair) => {
+    const book = bookId && fileName ? { id: bookId, fileName } : null;
+    setTextPairs(prev => {
+      const next = [...prev];
+      next[index] = update(next[index]);
+      return next;
+    });
+    queueSave(book, [index]);
+  };
+
+  // Re-runs only the given sentences; the rest of the book is left untouched
+  const retranslate = (indices: number[], options: Omit<TranslateRunOptions, 'indices'> = {}) => {
+    if (isProcessing || indices.length === 0) return;
+    translateInBatches(textPairsRef.current, undefined, undefined, { ...options, indices });
+  };
+
+  // Counted once per change to the pairs rather than per batch or render
+  const pairCounts = useMemo(() => {
+    let completed = 0;
+    let edited = 0;
+    // What a full run or resume picks up: failures wait for an explicit retry
+    let pending = 0;
+    const failed: number[] = [];
+    textPairs.forEach((p, i) => {
+      if (p.status === 'completed') completed++;
+      else if (p.status === 'error') failed.push(i);
+      if (isHumanEdited(p)) edited++;
+      else if (p.status === 'pending') pending++;
+    });
+    return { completed, failed, edited, pending };
+  }, [textPairs]);
+  const failedIndices = pairCounts.failed;
+  const editedCount = pairCounts.edited;
+
+  useEffect(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    pendingSaveRef.current = null;
+    // Queued for a book that has been closed or replaced since
+    if (pending.book.id !== bookId || textPairs.length === 0) return;
+    const currentProg = Math.round((pairCounts.completed / textPairs.length) * 100);
+    setProgress(currentProg);
+    saveCurrentToHistory(textPairs, pending.book, currentProg, pending.meta, [...pending.indices]);
+  }, [textPairs]);
+
+  const toggleSelection = (index: number, range: boolean) => {
+    const anchor = selectionAnchorRef.current;
+    setSelectedIndices(prev => {
+      const next = new Set(prev);
+      if (range && anchor !== null) {
+        for (let k = Math.min(anchor, index); k <= Math.max(anchor, index); k++) next.add(k);
+      } else if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+    selectionAnchorRef.current = index;
+  };
+
+  // TranslationPair is memoized; route its actions through a ref so the
+  // callback it receives never changes identity
+  const pairActionRef = useRef<(index: number, action: PairAction) => void>(() => { });
+  pairActionRef.current = (index, action) => {
+    if (action.type === 'select') toggleSelection(index, action.range);
+    else if (action.type === 'retry') retranslate([index]);
+    else if (action.type === 'retranslate') retranslate([index], { providerId: action.providerId, skipMemory: true });
+    else if (action.type === 'edit') {
+      updatePair(index, p => ({ ...withHumanEdit(p, action.text), status: 'completed', memory: undefined }));
+    } else {
+      updatePair(index, p => {
+        const reverted = revertEdit(p, action.at);
+        return { ...reverted, status: reverted.translated ? 'completed' : 'pending', memory: undefined };
+      });
+    }
+  };
+  const handlePairAction = useRef((index: number, action: PairAction) => pairActionRef.current(index, action)).current;
+
+  useEffect(() => {
+    setSelectedIndices(new Set());
+    selectionAnchorRef.current = null;
+    moveFocus(0);
+  }, [bookId]);
+
+  // Lazy translation: once the reader settles somewhere (or background mode is
+  // switched on), translate what's still pending around them
+  useEffect(() => {
+    if (!autoTranslate || isProcessing || bookPausedJob || textPairs.length === 0) return;
+    const timer = setTimeout(() => {
+      const pending = textPairsRef.current.flatMap((p, j) => p.status === 'pending' ? [j] : []);
+      if (pickNextBatch(pending, focusIndexRef.current, 1, prefetchWindow(prefetchSize), backgroundTranslation).length > 0) {
+        translateInBatches(textPairsRef.current);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [focusIndex, autoTranslate, isProcessing, bookPausedJob, backgroundTranslation, prefetchSize, textPairs.length]);
+
   const handleTouchStart = (e: React.TouchEvent) => {
     if (e.touches.length === 2) {
       const distance = Math.hypot(
@@ -1243,6 +2493,17 @@ export default function App() {
     touchStartDistance.current = null;
   };
 
+  const isEpub = !!fileName?.toLowerCase().endsWith('.epub');
+
+  // Warn when the loaded single-pair model doesn't match the book's language
+  const activeModelPair = isOfflineMode && modelSource === 'remote'
+    ? parseModelLanguagePair(loadedModelId || remoteModelId)
+    : null;
+  const languageWarning = textPairs.length > 0 && activeModelPair && detectedLang && !languageWarningDismissed &&
+    (activeModelPair.source !== detectedLang.code || activeModelPair.target !== targetLang)
+    ? `Buku terdeteksi berbahasa ${getLanguage(detectedLang.code).label} (${Math.round(detectedLang.confidence * 100)}%), tetapi model aktif menerjemahkan ${activeModelPair.source.toUpperCase()} → ${activeModelPair.target.toUpperCase()}.`
+    : null;
+
   return (
     <div className="min-h-screen bg-[#121212] text-white font-sans selection:bg-emerald-500/30">
       <header className="sticky top-0 z-50 bg-[#000000]/80 backdrop-blur-md border-b border-white/10 px-6 py-4">
@@ -1257,8 +2518,16 @@ export default function App() {
                   <button
                     onClick={() => {
                       if (confirm("Tutup buku ini dan kembali ke menu utama?")) {
+                        // The running job stays resumable next time the book is opened
+                        supersedeRun('pause');
+                        flushGlossary();
                         setTextPairs([]);
+                        setDetectedLang(null);
                         setFileName(null);
+                        setBookId(null);
+                        // The next book starts from the chosen defaults, not this book's pair
+                        setSourceLang(defaultSourceLang());
+                        setTargetLang(defaultTargetLang());
                         setFileUrl(null);
                         setProgress(0);
                         setNumPages(0);
@@ -1293,6 +2562,51 @@ export default function App() {
                   <span className="hidden sm:inline">{showOriginalOnly ? 'apk Off' : 'Teks Asli'}</span>
                 </button>
 
+                <button
+                  onClick={() => setShowGlossary(true)}
+                  className="relative flex items-center gap-2 px-4 py-2 rounded-full font-bold transition-all bg-white/10 text-white hover:bg-white/20"
+                  title="Glosarium buku ini"
+                >
+                  <BookMarked className="w-5 h-5" />
+                  <span className="hidden sm:inline">Glosarium</span>
+                  {glossaryViolations.size > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-black text-[10px] font-bold flex items-center justify-center">
+                      {glossaryViolations.size}
+                    </span>
+                  )}
+                </button>
+
+                <button
+                  onClick={openExport}
+                  disabled={textPairs.length === 0}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full font-bold transition-all bg-white/10 text-white hover:bg-white/20 disabled:opacity-50"
+                  title="Export buku dua bahasa"
+                >
+                  <Download className="w-5 h-5" />
+                  <span className="hidden sm:inline">Export</span>
+                </button>
+
+                {fileName && getSubtitleFormat(fileName) && (
+                  <div className="flex items-center gap-1 bg-white/5 rounded-full p-1 border border-white/10">
+                    <button
+                      onClick={() => exportSubtitles('translated')}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-full font-bold text-xs text-white hover:bg-white/10 transition-all"
+                      title="Export subtitle terjemahan (timing asli)"
+                    >
+                      <Download className="w-4 h-4" />
+                      <span className="hidden sm:inline">{getSubtitleFormat(fileName)!.toUpperCase()}</span>
+                    </button>
+                    <button
+                      onClick={() => exportSubtitles('bilingual')}
+                      className="flex items-center gap-2 px-3 py-1.5 rounded-full font-bold text-xs text-white hover:bg-white/10 transition-all"
+                      title="Export subtitle dua bahasa (asli + terjemahan)"
+                    >
+                      <Columns className="w-4 h-4" />
+                      <span className="hidden sm:inline">Dual</span>
+                    </button>
+                  </div>
+                )}
+
                 {fileUrl && fileName?.toLowerCase().endsWith('.pdf') && (
                   <div className="flex items-center gap-1 bg-white/5 rounded-full p-1 border border-white/10">
                     <button
@@ -1303,7 +2617,7 @@ export default function App() {
                         }`}
                     >
                       <Languages className="w-4 h-4" />
-                      <span className="hidden sm:inline">Terjemahan</span>
+                      <span className="hidden sm:inline">Terjemahan ({getLanguage(targetLang).label})</span>
                     </button>
                     <button
                       onClick={() => setActiveTab('pdf')}
@@ -1329,21 +2643,27 @@ export default function App() {
             </button>
 
             <button
-              onClick={() => setIsOfflineMode(!isOfflineMode)}
+              onClick={() => {
+                const ids = listProviders().map(p => p.id);
+                setProviderId(ids[(ids.indexOf(providerId) + 1) % ids.length]);
+              }}
               className={`flex items-center gap-2 px-4 py-2.5 rounded-full font-bold transition-all ${isOfflineMode
                 ? 'bg-amber-500 text-black'
-                : 'bg-white/5 text-white hover:bg-white/10'
+                : providerId === 'openai-compatible'
+                  ? 'bg-violet-500 text-black'
+                  : 'bg-white/5 text-white hover:bg-white/10'
                 }`}
-              title={isOfflineMode ? "Seralih ke Online (Gemini)" : "Seralih ke Offline (MarianMT)"}
+              title={`Mesin aktif: ${getProvider(providerId)?.name}. Klik untuk beralih.`}
             >
-              {isOfflineMode ? <WifiOff className="w-5 h-5" /> : <Wifi className="w-5 h-5" />}
-              <span className="hidden lg:inline">{isOfflineMode ? 'Offline Mode' : 'Online Mode'}</span>
+              {isOfflineMode ? <WifiOff className="w-5 h-5" /> : providerId === 'openai-compatible' ? <Server className="w-5 h-5" /> : <Wifi className="w-5 h-5" />}
+              <span className="hidden lg:inline">{isOfflineMode ? 'Offline Mode' : providerId === 'openai-compatible' ? 'LLM Lokal' : 'Online Mode'}</span>
             </button>
 
             {fileName && (
               <div className="hidden md:flex items-center gap-2 px-3 py-1.5 bg-white/5 rounded-full border border-white/10">
                 <FileText className="w-4 h-4 text-emerald-400" />
                 <span className="text-sm font-medium truncate max-w-[150px]">{fileName}</span>
+                <span className="text-[10px] font-mono font-bold text-zinc-500 uppercase">{sourceLang} → {targetLang}</span>
               </div>
             )}
           </div>
@@ -1410,6 +2730,11 @@ export default function App() {
               <div className="mt-4 flex justify-end">
                 <button
                   onClick={() => {
+                    // Terminating the worker aborts the download/initialisation in progress
+                    translatorWorkerRef.current?.terminate();
+                    translatorWorkerRef.current = null;
+                    translatorRef.current = null;
+                    setLoadedModelId(null);
                     setIsModelLoading(false);
                     setModelStatus(null);
                   }}
@@ -1438,6 +2763,33 @@ export default function App() {
           </div>
         )}
 
+        {languageWarning && !errorMessage && (
+          <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[199] w-full max-w-md">
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="p-4 bg-amber-500 text-black rounded-xl shadow-2xl flex items-center gap-3"
+            >
+              <Languages className="w-5 h-5 flex-shrink-0" />
+              <div className="flex-1">
+                <p className="text-sm font-bold">{languageWarning}</p>
+                <button
+                  onClick={() => {
+                    setRemoteModelId(suggestOpusModel(detectedLang!.code, targetLang));
+                    setLanguageWarningDismissed(true);
+                  }}
+                  className="mt-1 text-[10px] font-bold uppercase tracking-wider underline"
+                >
+                  Gunakan {suggestOpusModel(detectedLang!.code, targetLang)}
+                </button>
+              </div>
+              <button onClick={() => setLanguageWarningDismissed(true)} className="ml-auto p-1 hover:bg-black/10 rounded">
+                <X className="w-4 h-4" />
+              </button>
+            </motion.div>
+          </div>
+        )}
+
         <div className="max-w-7xl mx-auto px-6">
           <AnimatePresence mode="wait">
             {textPairs.length === 0 ? (
@@ -1453,17 +2805,27 @@ export default function App() {
                 </div>
                 <h2 className="text-3xl font-bold mb-4">Mulai Membaca Text</h2>
                 <p className="text-zinc-400 max-w-md text-lg leading-relaxed mb-12">
-                  Pilih model penerjemah dan unggah file PDF/TXT Anda untuk mulai membaca dengan terjemahan AI.
+                  Pilih model penerjemah dan unggah file PDF/TXT/EPUB atau subtitle (SRT/VTT) Anda untuk mulai membaca dengan terjemahan AI.
                 </p>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6 w-full max-w-4xl mb-12">
+                <div className="w-full max-w-md mb-8">
+                  <p className="text-[10px] text-zinc-500 uppercase font-bold tracking-widest mb-2">Bahasa Buku → Bahasa Terjemahan</p>
+                  <LanguagePairSelector
+                    sourceLang={sourceLang}
+                    targetLang={targetLang}
+                    setSourceLang={chooseSourceLang}
+                    setTargetLang={chooseTargetLang}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 w-full max-w-5xl mb-12">
                   {/* Google Gemini (Online) */}
                   <div
-                    onClick={() => { setIsOfflineMode(false); setModelSource('remote'); }}
-                    className={`p-6 rounded-3xl border transition-all cursor-pointer text-left relative overflow-hidden group ${!isOfflineMode ? 'bg-emerald-500/10 border-emerald-500 shadow-lg shadow-emerald-500/5' : 'bg-white/5 border-white/10 hover:border-white/20'}`}
+                    onClick={() => { setProviderId('gemini'); setModelSource('remote'); }}
+                    className={`p-6 rounded-3xl border transition-all cursor-pointer text-left relative overflow-hidden group ${providerId === 'gemini' ? 'bg-emerald-500/10 border-emerald-500 shadow-lg shadow-emerald-500/5' : 'bg-white/5 border-white/10 hover:border-white/20'}`}
                   >
                     <div className="flex items-center gap-3 mb-4">
-                      <div className={`p-2 rounded-xl ${!isOfflineMode ? 'bg-emerald-500 text-black' : 'bg-white/10 text-zinc-400'}`}>
+                      <div className={`p-2 rounded-xl ${providerId === 'gemini' ? 'bg-emerald-500 text-black' : 'bg-white/10 text-zinc-400'}`}>
                         <Wifi className="w-5 h-5" />
                       </div>
                       <span className="font-bold">Gemini AI</span>
@@ -1471,12 +2833,12 @@ export default function App() {
                     <p className="text-xs text-zinc-500 leading-relaxed">
                       Sangat akurat, memerlukan koneksi internet. Menggunakan Gemini 1.5 Flash.
                     </p>
-                    {!isOfflineMode && <CheckCircle2 className="absolute top-4 right-4 w-5 h-5 text-emerald-500" />}
+                    {providerId === 'gemini' && <CheckCircle2 className="absolute top-4 right-4 w-5 h-5 text-emerald-500" />}
                   </div>
 
                   {/* Remote Model (Hugging Face) */}
                   <div
-                    onClick={() => { setIsOfflineMode(true); setModelSource('remote'); }}
+                    onClick={() => { setProviderId('transformers'); setModelSource('remote'); }}
                     className={`p-6 rounded-3xl border transition-all cursor-pointer text-left relative overflow-hidden group ${isOfflineMode && modelSource === 'remote' ? 'bg-amber-500/10 border-amber-500 shadow-lg shadow-amber-500/5' : 'bg-white/5 border-white/10 hover:border-white/20'}`}
                   >
                     <div className="flex items-center gap-3 mb-4">
@@ -1493,7 +2855,7 @@ export default function App() {
 
                   {/* Custom Model (Upload) */}
                   <div
-                    onClick={() => { setIsOfflineMode(true); setModelSource('custom'); }}
+                    onClick={() => { setProviderId('transformers'); setModelSource('custom'); }}
                     className={`p-6 rounded-3xl border transition-all cursor-pointer text-left relative overflow-hidden group ${isOfflineMode && modelSource === 'custom' ? 'bg-blue-500/10 border-blue-500 shadow-lg shadow-blue-500/5' : 'bg-white/5 border-white/10 hover:border-white/20'}`}
                   >
                     <div className="flex items-center gap-3 mb-4">
@@ -1507,8 +2869,39 @@ export default function App() {
                     </p>
                     {isOfflineMode && modelSource === 'custom' && <CheckCircle2 className="absolute top-4 right-4 w-5 h-5 text-blue-500" />}
                   </div>
+
+                  {/* Local OpenAI-compatible LLM */}
+                  <div
+                    onClick={() => setProviderId('openai-compatible')}
+                    className={`p-6 rounded-3xl border transition-all cursor-pointer text-left relative overflow-hidden group ${providerId === 'openai-compatible' ? 'bg-violet-500/10 border-violet-500 shadow-lg shadow-violet-500/5' : 'bg-white/5 border-white/10 hover:border-white/20'}`}
+                  >
+                    <div className="flex items-center gap-3 mb-4">
+                      <div className={`p-2 rounded-xl ${providerId === 'openai-compatible' ? 'bg-violet-500 text-black' : 'bg-white/10 text-zinc-400'}`}>
+                        <Server className="w-5 h-5" />
+                      </div>
+                      <span className="font-bold">LLM Lokal</span>
+                    </div>
+                    <p className="text-xs text-zinc-500 leading-relaxed">
+                      {getProvider('openai-compatible')?.description}
+                    </p>
+                    {providerId === 'openai-compatible' && <CheckCircle2 className="absolute top-4 right-4 w-5 h-5 text-violet-500" />}
+                  </div>
                 </div>
 
+                {providerId === 'openai-compatible' && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mb-12 p-6 bg-violet-500/5 border border-violet-500/20 rounded-3xl max-w-lg w-full text-left"
+                  >
+                    <ProviderSettingsFields
+                      provider={getProvider('openai-compatible')!}
+                      settings={providerSettings['openai-compatible'] || {}}
+                      onChange={(key, value) => updateProviderSetting('openai-compatible', key, value)}
+                    />
+                  </motion.div>
+                )}
+
                 {isOfflineMode && modelSource === 'remote' && (
                   <motion.div
                     initial={{ opacity: 0, y: 10 }}
@@ -1556,6 +2949,15 @@ export default function App() {
                           </>
                         )}
                       </div>
+                      {!isMultilingualModel(remoteModelId) && remoteModelId !== suggestOpusModel(sourceLang, targetLang) && (
+                        <button
+                          onClick={() => setRemoteModelId(suggestOpusModel(sourceLang, targetLang))}
+                          className="flex items-center gap-2 px-3 py-2 rounded-2xl border border-amber-500/20 bg-amber-500/5 text-xs text-amber-500/80 hover:text-amber-400 text-left transition-all"
+                        >
+                          <Languages className="w-4 h-4 shrink-0" />
+                          <span>Model ini mungkin tidak cocok untuk {getLanguage(sourceLang).label} → {getLanguage(targetLang).label}. Gunakan <span className="font-mono">{suggestOpusModel(sourceLang, targetLang)}</span>?</span>
+                        </button>
+                      )}
                     </div>
                   </motion.div>
                 )}
@@ -1771,7 +3173,7 @@ export default function App() {
                     className="group relative flex items-center gap-3 bg-white text-black px-8 py-4 rounded-full font-bold text-lg hover:scale-105 transition-all shadow-xl shadow-white/10 active:scale-95 disabled:opacity-30 disabled:hover:scale-100"
                   >
                     <Upload className="w-6 h-6" />
-                    <span>Pilih Buku (PDF/TXT)</span>
+                    <span>Pilih Buku (PDF/TXT/EPUB/SRT)</span>
                   </button>
                 </div>
               </motion.div>
@@ -1787,20 +3189,64 @@ export default function App() {
                 >
                   {activeTab === 'translation' ? (
                     <div className="py-12 max-w-3xl mx-auto space-y-6">
-                      {textPairs.map((pair, index) => (
-                        <TranslationPair
-                          key={index}
-                          index={index}
-                          pair={pair}
-                          hoveredIndex={hoveredIndex}
-                          showOriginalOnly={showOriginalOnly}
-                          pdfPage={pdfPage}
-                          readerFontSize={readerFontSize}
-                          setHoveredIndex={setHoveredIndex}
-                          setPdfPage={setPdfPage}
-                          setActiveTab={setActiveTab}
-                        />
-                      ))}
+                      {isEpub && numPages > 0 && (
+                        <div className="sticky top-24 z-20 flex items-center justify-center">
+                          <div className="flex items-center gap-2 bg-[#1a1a1a]/90 backdrop-blur-md px-4 py-1.5 rounded-full border border-white/10">
+                            <button
+                              onClick={() => scrollToChapter(Math.max(1, pdfPage - 1))}
+                              disabled={pdfPage <= 1}
+                              className="p-1 hover:bg-white/10 rounded-lg disabled:opacity-30 transition-colors"
+                            >
+                              <ChevronLeft className="w-5 h-5" />
+                            </button>
+                            <select
+                              value={pdfPage}
+                              onChange={(e) => scrollToChapter(parseInt(e.target.value, 10))}
+                              className="bg-transparent text-sm font-mono text-zinc-300 max-w-[220px] truncate focus:outline-none [&>option]:bg-[#1a1a1a]"
+                            >
+                              {textPairs
+                                .filter((p, i) => p.chapter !== undefined && (i === 0 || textPairs[i - 1].chapter !== p.chapter))
+                                .map(p => (
+                                  <option key={p.chapter} value={p.chapter}>Bab {p.chapter} / {numPages} · {p.chapterTitle}</option>
+                                ))}
+                            </select>
+                            <button
+                              onClick={() => scrollToChapter(Math.min(numPages, pdfPage + 1))}
+                              disabled={pdfPage >= numPages}
+                              className="p-1 hover:bg-white/10 rounded-lg disabled:opacity-30 transition-colors"
+                            >
+                              <ChevronRight className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      <SentenceList
+                        count={textPairs.length}
+                        resetKey={`${bookId}:${readerFontSize}:${showOriginalOnly}`}
+                        handleRef={sentenceListRef}
+                        renderRow={(index) => {
+                          const pair = textPairs[index];
+                          return (
+                            <TranslationPair
+                              index={index}
+                              pair={pair}
+                              isHovered={hoveredIndex === index}
+                              showOriginalOnly={showOriginalOnly}
+                              readerFontSize={readerFontSize}
+                              sourceLang={sourceLang}
+                              targetLang={targetLang}
+                              isChapterStart={pair.chapter !== undefined && (index === 0 || textPairs[index - 1].chapter !== pair.chapter)}
+                              glossaryIssues={glossaryViolations.get(index)}
+                              selected={selectedIndices.has(index)}
+                              actionsDisabled={isProcessing}
+                              onAction={handlePairAction}
+                              setHoveredIndex={setHoveredIndex}
+                              setPdfPage={setPdfPage}
+                              setActiveTab={setActiveTab}
+                            />
+                          );
+                        }}
+                      />
 
                       {isProcessing && (
                         <div className="flex items-center justify-center py-12">
@@ -1885,6 +3331,45 @@ export default function App() {
         </div>
       </main>
 
+      <AnimatePresence>
+        {selectedIndices.size > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="fixed bottom-8 left-1/2 -translate-x-1/2 z-50 bg-[#282828] border border-white/10 rounded-full pl-5 pr-2 py-2 shadow-2xl flex items-center gap-3"
+          >
+            <span className="text-sm font-bold whitespace-nowrap">{selectedIndices.size} kalimat dipilih</span>
+            <select
+              value={selectionProviderId || providerId}
+              onChange={(e) => setSelectionProviderId(e.target.value)}
+              className="bg-white/5 border border-white/10 rounded-full px-3 py-1.5 text-xs focus:outline-none [&>option]:bg-[#1a1a1a]"
+              title="Mesin terjemahan"
+            >
+              {listProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button
+              onClick={() => {
+                retranslate(Array.from(selectedIndices), { providerId: selectionProviderId || providerId, skipMemory: true });
+                setSelectedIndices(new Set());
+              }}
+              disabled={isProcessing}
+              className="px-4 py-1.5 bg-blue-500 text-black text-xs font-bold rounded-full hover:bg-blue-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <RotateCcw className="w-3 h-3" />
+              <span>TERJEMAHKAN ULANG</span>
+            </button>
+            <button
+              onClick={() => { setSelectedIndices(new Set()); selectionAnchorRef.current = null; }}
+              className="p-1.5 hover:bg-white/10 rounded-full text-zinc-400 hover:text-white transition-colors"
+              title="Batalkan pilihan"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {textPairs.length > 0 && (
         <div className="fixed bottom-8 right-8 z-50 flex flex-col items-end gap-3">
           <AnimatePresence>
@@ -1914,6 +3399,12 @@ export default function App() {
               <span className="text-xs text-zinc-400 font-mono uppercase tracking-widest group-hover:text-white transition-colors">
                 {textPairs.filter(p => p.status === 'completed').length} / {textPairs.length} Kalimat
               </span>
+              {editedCount > 0 && (
+                <span className="text-[10px] text-emerald-500/70 font-mono flex items-center gap-1">
+                  <Pencil className="w-3 h-3" />
+                  {editedCount} diedit manual
+                </span>
+              )}
               {tokenUsage.total > 0 && (
                 <span className="text-[10px] text-emerald-500/70 font-mono flex items-center gap-1">
                   <Activity className="w-3 h-3" />
@@ -1922,10 +3413,80 @@ export default function App() {
               )}
             </div>
 
-            {isOfflineMode && textPairs.some(p => p.status === 'pending') && (
+            {activeJob && (
+              <div className="ml-2 flex items-center gap-1">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    activeJob.pause();
+                    setActiveJob(null);
+                  }}
+                  className="p-1.5 bg-white/5 rounded-full hover:bg-white/10 text-zinc-300 transition-colors"
+                  title="Jeda terjemahan"
+                >
+                  <Pause className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    activeJob.cancel();
+                    setActiveJob(null);
+                    setAutoTranslate(false);
+                  }}
+                  className="p-1.5 bg-white/5 rounded-full hover:bg-red-500/20 text-zinc-300 hover:text-red-400 transition-colors"
+                  title="Batalkan terjemahan"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+
+            {!isProcessing && bookPausedJob && (
+              <div className="ml-2 flex items-center gap-1">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    resumeJob();
+                  }}
+                  className="px-4 py-1.5 bg-emerald-500 text-black text-xs font-bold rounded-full hover:bg-emerald-400 transition-colors shadow-lg shadow-emerald-500/20 flex items-center gap-2"
+                  title={`Dijeda ${new Date(bookPausedJob.updatedAt).toLocaleString()}`}
+                >
+                  <Play className="w-3 h-3" />
+                  <span>LANJUTKAN ({bookPausedJob.indices?.length ?? pairCounts.pending})</span>
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    cancelPausedJob();
+                  }}
+                  className="p-1.5 bg-white/5 rounded-full hover:bg-red-500/20 text-zinc-300 hover:text-red-400 transition-colors"
+                  title="Batalkan pekerjaan yang dijeda"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+
+            {failedIndices.length > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  retranslate(failedIndices);
+                }}
+                disabled={isProcessing}
+                className="ml-2 px-4 py-1.5 bg-red-500/20 text-red-400 text-xs font-bold rounded-full hover:bg-red-500/30 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                title="Coba lagi semua kalimat yang gagal"
+              >
+                <RotateCcw className="w-3 h-3" />
+                <span>ULANG {failedIndices.length} GAGAL</span>
+              </button>
+            )}
+
+            {(isOfflineMode || !autoTranslate) && !bookPausedJob && textPairs.some(p => p.status === 'pending') && (
               <button
                 onClick={(e) => {
                   e.stopPropagation();
+                  setAutoTranslate(true);
                   translateInBatches(textPairs);
                 }}
                 disabled={isProcessing}
@@ -2024,17 +3585,49 @@ export default function App() {
               </div>
 
               <div className="space-y-6">
-                <div>
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="text-sm text-zinc-400 font-medium">Batas Per Menit (TPM)</span>
-                    <span className="text-xs font-mono text-zinc-500 text-right">Limit: 1M Tokens</span>
+                {[
+                  {
+                    label: 'Request Per Menit (RPM)',
+                    used: geminiQueue?.requestsInWindow ?? 0,
+                    limit: geminiQueue?.limits.requestsPerMinute ?? 15
+                  },
+                  {
+                    label: 'Token Per Menit (TPM)',
+                    used: geminiQueue?.tokensInWindow ?? 0,
+                    limit: geminiQueue?.limits.tokensPerMinute ?? 1000000
+                  }
+                ].map(bar => (
+                  <div key={bar.label}>
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm text-zinc-400 font-medium">{bar.label}</span>
+                      <span className="text-xs font-mono text-zinc-500 text-right">{bar.used.toLocaleString()} / {bar.limit.toLocaleString()}</span>
+                    </div>
+                    <div className="h-2 w-full bg-white/5 rounded-full overflow-hidden">
+                      <motion.div
+                        initial={{ width: 0 }}
+                        animate={{ width: `${Math.min((bar.used / bar.limit) * 100, 100)}%` }}
+                        className={`h-full ${bar.used / bar.limit > 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`}
+                      />
+                    </div>
                   </div>
-                  <div className="h-2 w-full bg-white/5 rounded-full overflow-hidden">
-                    <motion.div
-                      initial={{ width: 0 }}
-                      animate={{ width: `${Math.min((tokenUsage.total / 1000000) * 100, 100)}%` }}
-                      className="h-full bg-emerald-500"
-                    />
+                ))}
+
+                <div className="flex items-center justify-between bg-white/5 border border-white/5 rounded-2xl p-4 text-xs">
+                  <div className="flex items-center gap-2 text-zinc-400">
+                    <Activity className={`w-4 h-4 ${geminiQueue?.inFlight ? 'text-emerald-500 animate-pulse' : ''}`} />
+                    <span className="font-bold uppercase tracking-wider">Antrian</span>
+                  </div>
+                  <div className="text-right font-mono text-zinc-400 space-y-0.5">
+                    <div>
+                      {geminiQueue?.inFlight ? 'Mengirim' : 'Idle'} · {geminiQueue?.queued ?? 0} menunggu
+                    </div>
+                    {geminiQueue?.waitingUntil && (
+                      <div className="text-amber-500">
+                        {geminiQueue.retry
+                          ? `Retry ${geminiQueue.retry.attempt}/${geminiQueue.retry.maxRetries} (${geminiQueue.retry.reason})`
+                          : 'Menunggu limit'} · {Math.max(0, Math.ceil((geminiQueue.waitingUntil - Date.now()) / 1000))}s
+                      </div>
+                    )}
                   </div>
                 </div>
 
@@ -2042,7 +3635,7 @@ export default function App() {
                   <p className="flex items-start gap-2">
                     <Info className="w-4 h-4 text-zinc-500 shrink-0 mt-0.5" />
                     <span>
-                      Data ini adalah estimasi berdasarkan penggunaan aplikasi. Google Gemini Free Tier memiliki limit 15 RPM dan 1 Juta TPM. Quota harian di-reset setiap hari pukul 00:00 UTC.
+                      Data ini adalah estimasi berdasarkan penggunaan aplikasi. Google Gemini Free Tier memiliki limit 15 RPM dan 1 Juta TPM; permintaan otomatis ditunda sebelum limit dan dicoba ulang saat terkena 429. Limit dapat diubah di Settings. Quota harian di-reset setiap hari pukul 00:00 UTC.
                     </span>
                   </p>
                 </div>
@@ -2137,6 +3730,461 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Glossary Modal */}
+      <AnimatePresence>
+        {showGlossary && (
+          <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={closeGlossary}
+              className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-8 shadow-2xl overflow-hidden"
+            >
+              <div className="absolute top-0 right-0 p-4">
+                <button
+                  onClick={closeGlossary}
+                  className="p-2 hover:bg-white/5 rounded-xl transition-colors text-zinc-400 hover:text-white"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-4 mb-6">
+                <div className="p-3 bg-amber-500/10 rounded-2xl">
+                  <BookMarked className="w-6 h-6 text-amber-500" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Glosarium</h3>
+                  <p className="text-sm text-zinc-500 truncate max-w-md">{fileName}</p>
+                </div>
+              </div>
+
+              <div className="flex-1 overflow-y-auto space-y-2 pr-1 mb-4">
+                {glossary.length === 0 ? (
+                  <p className="text-xs text-zinc-600 italic text-center py-8">
+                    Belum ada istilah. Tambahkan nama tokoh, tempat atau istilah teknis.
+                  </p>
+                ) : glossary.map(entry => {
+                  const patch = (changes: Partial<GlossaryEntry>) =>
+                    updateGlossary(glossary.map(e => e.id === entry.id ? { ...e, ...changes } : e));
+                  return (
+                    <div key={entry.id} className="flex flex-wrap items-center gap-2 p-3 bg-white/5 border border-white/5 rounded-xl">
+                      <input
+                        type="text"
+                        value={entry.term}
+                        onChange={(e) => patch({ term: e.target.value })}
+                        onBlur={flushGlossary}
+                        placeholder="Istilah asli"
+                        className="flex-1 min-w-[120px] bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/50"
+                      />
+                      <input
+                        type="text"
+                        value={entry.keep ? entry.term : entry.translation}
+                        disabled={entry.keep}
+                        onChange={(e) => patch({ translation: e.target.value })}
+                        onBlur={flushGlossary}
+                        placeholder="Terjemahan wajib"
+                        className="flex-1 min-w-[120px] bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-amber-500/50 disabled:opacity-40"
+                      />
+                      <label className="flex items-center gap-1 text-[10px] text-zinc-400 uppercase font-bold tracking-wider">
+                        <input type="checkbox" checked={entry.keep} onChange={(e) => patch({ keep: e.target.checked })} className="accent-amber-500" />
+                        Tetap
+                      </label>
+                      <label className="flex items-center gap-1 text-[10px] text-zinc-400 uppercase font-bold tracking-wider" title="Huruf besar/kecil harus sama">
+                        <input type="checkbox" checked={entry.caseSensitive} onChange={(e) => patch({ caseSensitive: e.target.checked })} className="accent-amber-500" />
+                        Aa
+                      </label>
+                      <button
+                        onClick={() => updateGlossary(glossary.filter(e => e.id !== entry.id))}
+                        className="p-1.5 text-zinc-600 hover:text-red-500 transition-colors"
+                        title="Hapus istilah"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {glossaryViolations.size > 0 && (
+                <p className="flex items-center gap-2 text-xs text-amber-500 mb-4">
+                  <AlertCircle className="w-4 h-4" />
+                  {glossaryViolations.size} kalimat tidak sesuai glosarium (ditandai ⚠ di daftar terjemahan).
+                </p>
+              )}
+
+              <button
+                onClick={() => updateGlossary([
+                  ...glossary,
+                  { id: `${Date.now()}-${glossary.length}`, term: '', translation: '', keep: false, caseSensitive: false }
+                ])}
+                disabled={!bookId}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-amber-500/10 text-amber-500 border border-amber-500/20 rounded-xl text-xs font-bold hover:bg-amber-500/20 transition-all disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" /> Tambah Istilah
+              </button>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* Export Modal */}
+      <AnimatePresence>
+        {showExport && (
+          <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setShowExport(false)}
+              className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="relative w-full max-w-lg max-h-[85vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-8 shadow-2xl overflow-hidden"
+            >
+              <div className="absolute top-0 right-0 p-4">
+                <button
+                  onClick={() => setShowExport(false)}
+                  className="p-2 hover:bg-white/5 rounded-xl transition-colors text-zinc-400 hover:text-white"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-4 mb-6">
+                <div className="p-3 bg-emerald-500/10 rounded-2xl">
+                  <Download className="w-6 h-6 text-emerald-500" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Export Buku</h3>
+                  <p className="text-sm text-zinc-500">
+                    {getLanguage(sourceLang).label} → {getLanguage(targetLang).label} · {textPairs.filter(p => p.status === 'completed').length}/{textPairs.length} kalimat diterjemahkan
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1 bg-white/5 rounded-full p-1 border border-white/10 mb-4 self-start">
+                {(['epub', 'pdf'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => setExportFormat(format)}
+                    className={`px-4 py-1.5 rounded-full font-bold text-xs transition-all ${exportFormat === format
+                      ? 'bg-emerald-500 text-black'
+                      : 'text-white hover:bg-white/10'
+                      }`}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex-1 overflow-y-auto space-y-4 pr-1 mb-6">
+                <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                  Judul
+                  <input
+                    type="text"
+                    value={exportTitle}
+                    onChange={(e) => setExportTitle(e.target.value)}
+                    className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                  Penulis
+                  <input
+                    type="text"
+                    value={exportSettings.author}
+                    onChange={(e) => updateExportSettings({ author: e.target.value })}
+                    placeholder="Opsional"
+                    className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                </label>
+                {exportFormat === 'epub' ? (
+                  <>
+                    <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                      Tata letak
+                      <select
+                        value={exportSettings.layout}
+                        onChange={(e) => updateExportSettings({ layout: e.target.value as EpubLayout })}
+                        className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none"
+                      >
+                        <option value="interleaved" className="bg-[#1a1a1a]">Berselang (asli lalu terjemahan)</option>
+                        <option value="translation" className="bg-[#1a1a1a]">Terjemahan saja</option>
+                        <option value="table" className="bg-[#1a1a1a]">Tabel dua kolom</option>
+                      </select>
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                        Pembagian bab
+                        <select
+                          value={exportSettings.chapterMode}
+                          onChange={(e) => updateExportSettings({ chapterMode: e.target.value as ChapterMode })}
+                          className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none"
+                        >
+                          <option value="auto" className="bg-[#1a1a1a]">Otomatis</option>
+                          <option value="headings" className="bg-[#1a1a1a]">Judul bab terdeteksi</option>
+                          <option value="pages" className="bg-[#1a1a1a]">Rentang halaman</option>
+                        </select>
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                        Halaman per bab
+                        <input
+                          type="number"
+                          min="1"
+                          max="500"
+                          value={exportSettings.pagesPerChapter}
+                          disabled={exportSettings.chapterMode === 'headings'}
+                          onChange={(e) => updateExportSettings({ pagesPerChapter: Math.max(1, parseInt(e.target.value) || 1) })}
+                          className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50 font-mono disabled:opacity-40"
+                        />
+                      </label>
+                    </div>
+                    <p className="text-[10px] text-zinc-500 italic">
+                      Otomatis memakai bab EPUB asli, lalu judul seperti "Chapter 1" atau "Bab IV", lalu rentang halaman. Kalimat yang belum diterjemahkan atau gagal ditampilkan dalam bahasa asli dengan huruf miring.
+                    </p>
+                  </>
+                ) : (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                        Tata letak
+                        <select
+                          value={exportSettings.pdfLayout}
+                          onChange={(e) => updateExportSettings({ pdfLayout: e.target.value as PdfLayout })}
+                          className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none"
+                        >
+                          <option value="side-by-side" className="bg-[#1a1a1a]">Berdampingan</option>
+                          <option value="alternating" className="bg-[#1a1a1a]">Bergantian</option>
+                        </select>
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                        Ukuran kertas
+                        <select
+                          value={exportSettings.pageSize}
+                          onChange={(e) => updateExportSettings({ pageSize: e.target.value as PdfPageSize })}
+                          className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none"
+                        >
+                          <option value="A4" className="bg-[#1a1a1a]">A4</option>
+                          <option value="A5" className="bg-[#1a1a1a]">A5</option>
+                          <option value="Letter" className="bg-[#1a1a1a]">Letter</option>
+                        </select>
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                        Margin (mm)
+                        <input
+                          type="number"
+                          min="0"
+                          max="50"
+                          value={exportSettings.marginMm}
+                          onChange={(e) => updateExportSettings({ marginMm: Math.min(50, Math.max(0, parseInt(e.target.value) || 0)) })}
+                          className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50 font-mono"
+                        />
+                      </label>
+                      <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                        Ukuran huruf (pt)
+                        <input
+                          type="number"
+                          min="6"
+                          max="24"
+                          value={exportSettings.fontSize}
+                          onChange={(e) => updateExportSettings({ fontSize: Math.min(24, Math.max(6, parseInt(e.target.value) || 10)) })}
+                          className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50 font-mono"
+                        />
+                      </label>
+                      {([
+                        ['originalFont', 'Font teks asli', sourceLang],
+                        ['translationFont', 'Font terjemahan', targetLang]
+                      ] as const).map(([key, label, lang]) => (
+                        <label key={key} className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                          {label}
+                          <select
+                            value={exportSettings[key]}
+                            onChange={(e) => updateExportSettings({ [key]: e.target.value })}
+                            className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none"
+                          >
+                            <option value="" className="bg-[#1a1a1a]">Otomatis ({defaultFontFor(lang)})</option>
+                            {uploadedFonts.map(font => (
+                              <option key={font} value={font} className="bg-[#1a1a1a]">{font}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-[10px] text-zinc-500">Font diunggah</span>
+                        <button
+                          onClick={uploadFonts}
+                          className="flex items-center gap-1 text-[10px] font-bold text-emerald-500 hover:text-emerald-400 transition-colors"
+                        >
+                          <Plus className="w-3 h-3" /> Unggah .ttf/.otf
+                        </button>
+                      </div>
+                      {uploadedFonts.length === 0 ? (
+                        <p className="text-[10px] text-zinc-600 italic">Belum ada. Font bawaan dibaca dari public/fonts/.</p>
+                      ) : (
+                        <div className="flex flex-wrap gap-1">
+                          {uploadedFonts.map(font => (
+                            <span key={font} className="flex items-center gap-1 px-2 py-1 bg-white/5 border border-white/10 rounded-lg text-[10px] text-zinc-300 font-mono">
+                              {font}
+                              <button onClick={() => removeFont(font)} className="text-zinc-600 hover:text-red-500 transition-colors" title="Hapus font">
+                                <X className="w-3 h-3" />
+                              </button>
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+
+                    <p className="text-[10px] text-zinc-500 italic">
+                      Font disematkan ke PDF agar aksara non-Latin tampil di perangkat mana pun; kata yang tidak ada di font terpilih memakai NotoSans-Regular.ttf. Setiap blok diberi nomor halaman sumber, dan kalimat yang belum atau gagal diterjemahkan ditandai garis kuning atau merah.
+                    </p>
+                  </>
+                )}
+              </div>
+
+              <button
+                onClick={exportFormat === 'epub' ? exportEpub : exportPdf}
+                disabled={textPairs.length === 0 || isExporting}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-emerald-500 text-black rounded-xl text-xs font-bold hover:bg-emerald-400 transition-all disabled:opacity-50"
+              >
+                {isExporting
+                  ? <><Loader2 className="w-4 h-4 animate-spin" /> Membuat PDF...</>
+                  : exportFormat === 'epub'
+                    ? <><BookOpen className="w-4 h-4" /> Unduh EPUB</>
+                    : <><FileText className="w-4 h-4" /> Unduh PDF</>}
+              </button>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
+      {/* Translation Memory Modal */}
+      <AnimatePresence>
+        {showMemory && (
+          <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              onClick={() => setShowMemory(false)}
+              className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            />
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9, y: 20 }}
+              animate={{ opacity: 1, scale: 1, y: 0 }}
+              exit={{ opacity: 0, scale: 0.9, y: 20 }}
+              className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-[#1a1a1a] border border-white/10 rounded-3xl p-8 shadow-2xl overflow-hidden"
+            >
+              <div className="absolute top-0 right-0 p-4">
+                <button
+                  onClick={() => setShowMemory(false)}
+                  className="p-2 hover:bg-white/5 rounded-xl transition-colors text-zinc-400 hover:text-white"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="flex items-center gap-4 mb-6">
+                <div className="p-3 bg-emerald-500/10 rounded-2xl">
+                  <Database className="w-6 h-6 text-emerald-500" />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold">Translation Memory</h3>
+                  <p className="text-sm text-zinc-500">Terjemahan tersimpan lintas buku</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                {[
+                  { label: 'Entri', value: memoryStats?.entries.toLocaleString() ?? '-' },
+                  { label: 'Hit Rate', value: memoryStats ? `${Math.round(memoryStats.hitRate * 100)}%` : '-' },
+                  { label: 'Exact', value: memoryStats?.exactHits.toLocaleString() ?? '-' },
+                  { label: 'Fuzzy', value: memoryStats?.fuzzyHits.toLocaleString() ?? '-' },
+                ].map(stat => (
+                  <div key={stat.label} className="bg-white/5 border border-white/5 rounded-2xl p-3">
+                    <div className="text-[10px] uppercase font-bold tracking-wider text-zinc-500 mb-1">{stat.label}</div>
+                    <div className="text-lg font-mono font-bold text-emerald-500">{stat.value}</div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-col md:flex-row gap-3 mb-4">
+                <div className="relative flex-1">
+                  <Search className="w-4 h-4 text-zinc-500 absolute left-3 top-1/2 -translate-y-1/2" />
+                  <input
+                    type="text"
+                    value={memoryQuery}
+                    onChange={(e) => setMemoryQuery(e.target.value)}
+                    placeholder="Cari kalimat..."
+                    className="w-full bg-white/5 border border-white/10 rounded-xl pl-9 pr-4 py-2.5 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+                  />
+                </div>
+                <select
+                  value={memoryFuzzyThreshold}
+                  onChange={(e) => setMemoryFuzzyThreshold(parseFloat(e.target.value))}
+                  className="bg-white/5 border border-white/10 rounded-xl px-3 py-2.5 text-xs focus:outline-none"
+                  title="Kemiripan minimum agar kalimat serupa dikirim ke Gemini/LLM sebagai referensi (tidak dipakai langsung)"
+                >
+                  <option value={1} className="bg-[#1a1a1a]">Fuzzy: Mati</option>
+                  <option value={0.98} className="bg-[#1a1a1a]">Fuzzy: 98%</option>
+                  <option value={0.95} className="bg-[#1a1a1a]">Fuzzy: 95%</option>
+                  <option value={0.9} className="bg-[#1a1a1a]">Fuzzy: 90%</option>
+                  <option value={0.85} className="bg-[#1a1a1a]">Fuzzy: 85%</option>
+                </select>
+              </div>
+
+              <div className="flex-1 overflow-y-auto space-y-2 pr-1 mb-4">
+                {memoryEntries.length === 0 ? (
+                  <p className="text-xs text-zinc-600 italic text-center py-8">Belum ada entri.</p>
+                ) : memoryEntries.map(entry => (
+                  <div key={entry.key} className="group flex items-start gap-3 p-3 bg-white/5 border border-white/5 rounded-xl">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <p className="text-xs text-zinc-300">{entry.source}</p>
+                      <p className="text-xs text-zinc-500 italic">{entry.translation}</p>
+                      <p className="text-[9px] text-zinc-600 font-mono uppercase tracking-wider">
+                        {entry.sourceLang} → {entry.targetLang} · {entry.engine} · {entry.hits}× dipakai
+                      </p>
+                    </div>
+                    <button
+                      onClick={async () => {
+                        await deleteMemoryEntry(entry.key);
+                        refreshMemory();
+                      }}
+                      className="p-1.5 text-zinc-600 hover:text-red-500 transition-colors opacity-0 group-hover:opacity-100"
+                      title="Hapus entri"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              <button
+                onClick={async () => {
+                  if (!confirm("Hapus seluruh Translation Memory?")) return;
+                  await clearTranslationMemory();
+                  refreshMemory();
+                }}
+                className="w-full py-3 bg-red-500/10 text-red-500 border border-red-500/20 rounded-xl text-xs font-bold hover:bg-red-500/20 transition-all"
+              >
+                Hapus Semua Translation Memory
+              </button>
+            </motion.div>
+          </div>
+        )}
+      </AnimatePresence>
+
       {/* Settings Modal */}
       <AnimatePresence>
         {showSettings && (
@@ -2174,21 +4222,171 @@ export default function App() {
               </div>
 
               <div className="space-y-6">
+                {listProviders().filter(provider => provider.settingsFields.length > 0).map(provider => (
+                  <ProviderSettingsFields
+                    key={provider.id}
+                    provider={provider}
+                    settings={providerSettings[provider.id] || {}}
+                    onChange={(key, value) => updateProviderSetting(provider.id, key, value)}
+                  />
+                ))}
+
                 <div>
                   <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-3">
-                    <Key className="w-3 h-3" /> Gemini API Key
+                    <Languages className="w-3 h-3" /> Bahasa {fileName ? 'Buku Ini' : 'Default'}
                   </label>
-                  <div className="relative">
-                    <input
-                      type="password"
-                      value={geminiApiKey}
-                      onChange={(e) => setGeminiApiKey(e.target.value)}
-                      placeholder="Masukkan Gemini API Key..."
-                      className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all font-mono"
-                    />
+                  <LanguagePairSelector
+                    sourceLang={sourceLang}
+                    targetLang={targetLang}
+                    setSourceLang={chooseSourceLang}
+                    setTargetLang={chooseTargetLang}
+                  />
+                  <p className="text-[10px] text-zinc-500 mt-2 italic">
+                    Berlaku untuk Gemini, model multibahasa (NLLB/M2M) dan disimpan bersama riwayat buku.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-3">
+                    <BookOpen className="w-3 h-3" /> Konteks Terjemahan
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                      Kalimat sebelumnya
+                      <input
+                        type="number"
+                        min="0"
+                        max="20"
+                        value={contextSize}
+                        onChange={(e) => setContextSize(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 font-mono"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                      Kalimat berikutnya
+                      <input
+                        type="number"
+                        min="0"
+                        max="10"
+                        value={contextFollowing}
+                        onChange={(e) => setContextFollowing(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 font-mono"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                      Reset di
+                      <select
+                        value={contextBoundary}
+                        onChange={(e) => setContextBoundary(e.target.value as 'paragraph' | 'chapter')}
+                        className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none"
+                      >
+                        <option value="paragraph" className="bg-[#1a1a1a]">Paragraf</option>
+                        <option value="chapter" className="bg-[#1a1a1a]">Bab</option>
+                      </select>
+                    </label>
+                  </div>
+                  <p className="text-[10px] text-zinc-500 mt-2 italic">
+                    Dikirim sebagai referensi (tidak ikut diterjemahkan) ke Gemini dan LLM lokal agar kata ganti, tense dan istilah tetap konsisten antar batch.
+                  </p>
+                </div>
+
+                <div>
+                  <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest mb-3">
+                    <Eye className="w-3 h-3" /> Terjemahan Bertahap
+                  </label>
+                  <div className="grid grid-cols-2 gap-2 items-end">
+                    <label className="flex flex-col gap-1 text-[10px] text-zinc-500">
+                      Kalimat di depan posisi baca
+                      <input
+                        type="number"
+                        min="5"
+                        max="500"
+                        value={prefetchSize}
+                        onChange={(e) => setPrefetchSize(Math.max(5, parseInt(e.target.value) || 5))}
+                        className="bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500/50 font-mono"
+                      />
+                    </label>
+                    <label className="flex items-center gap-2 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-[10px] text-zinc-400 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={backgroundTranslation}
+                        onChange={(e) => setBackgroundTranslation(e.target.checked)}
+                        className="accent-emerald-500"
+                      />
+                      Terjemahkan semua di latar belakang
+                    </label>
+                  </div>
+                  <p className="text-[10px] text-zinc-500 mt-2 italic">
+                    Kalimat di sekitar halaman yang sedang dibaca diterjemahkan lebih dulu. Tanpa mode latar belakang, sisa buku baru diterjemahkan saat Anda sampai di sana sehingga kuota lebih hemat.
+                  </p>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest">
+                      <ScanText className="w-3 h-3" /> OCR (PDF Scan)
+                    </label>
+                    <button
+                      onClick={() => {
+                        const input = document.createElement('input');
+                        input.type = 'file';
+                        input.multiple = true;
+                        input.accept = '.traineddata';
+                        input.onchange = async (e: any) => {
+                          const files = Array.from(e.target.files as FileList);
+                          try {
+                            await saveOcrLanguageFiles(files);
+                            setOcrLanguages(await listUploadedOcrLanguages());
+                          } catch (err) {
+                            console.error("Failed to save OCR data:", err);
+                            setErrorMessage("Gagal menyimpan data OCR.");
+                          }
+                        };
+                        input.click();
+                      }}
+                      className="p-1.5 bg-white/5 rounded-lg hover:bg-white/10 text-zinc-400 hover:text-blue-400 transition-all"
+                      title="Unggah .traineddata"
+                    >
+                      <Upload className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {ocrLanguages.length === 0 ? (
+                      <span className="text-[10px] text-zinc-600 italic">Belum ada data bahasa yang diunggah.</span>
+                    ) : ocrLanguages.map(code => (
+                      <span key={code} className="flex items-center gap-1 px-2 py-0.5 bg-white/5 rounded text-[10px] text-zinc-400 border border-white/5 font-mono">
+                        {code}
+                        <button
+                          onClick={async () => {
+                            await deleteOcrLanguage(code);
+                            setOcrLanguages(prev => prev.filter(c => c !== code));
+                          }}
+                          className="text-red-500/50 hover:text-red-500"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-zinc-500 mt-2 italic">
+                    Dipakai otomatis untuk halaman tanpa teks. Bahasa buku saat ini: <span className="font-mono">{toTesseractCode(sourceLang)}.traineddata</span>
+                  </p>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between">
+                    <label className="flex items-center gap-2 text-xs font-bold text-zinc-400 uppercase tracking-widest">
+                      <Database className="w-3 h-3" /> Translation Memory
+                    </label>
+                    <button
+                      onClick={() => { setShowSettings(false); setShowMemory(true); }}
+                      className="px-3 py-1.5 bg-white/5 rounded-lg hover:bg-white/10 text-[10px] font-bold uppercase tracking-wider text-zinc-400 hover:text-white transition-all"
+                    >
+                      Kelola
+                    </button>
                   </div>
                   <p className="text-[10px] text-zinc-500 mt-2 italic">
-                    API Key disimpan secara lokal di browser Anda.
+                    Kalimat yang pernah diterjemahkan dipakai ulang di semua buku tanpa memanggil mesin penerjemah.
                   </p>
                 </div>
 
@@ -2251,13 +4449,16 @@ export default function App() {
                         Belum ada riwayat.
                       </div>
                     ) : (
-                      translationHistory.map((h, i) => (
-                        <div key={i} className="bg-white/5 border border-white/5 rounded-xl p-3 group relative hover:border-blue-500/30 transition-all">
+                      translationHistory.map(h => (
+                        <div key={h.id} className="bg-white/5 border border-white/5 rounded-xl p-3 group relative hover:border-blue-500/30 transition-all">
                           <div className="flex justify-between items-start mb-1">
                             <p className="text-[11px] font-bold text-zinc-300 truncate pr-8">{h.fileName}</p>
                             <button
                               onClick={() => {
-                                setTranslationHistory(prev => prev.filter(x => x.fileName !== h.fileName));
+                                setTranslationHistory(prev => prev.filter(x => x.id !== h.id));
+                                localStorage.removeItem(`pdf-progress-${h.id}`);
+                                clearJob(h.id);
+                                deleteBook(h.id).catch(err => console.error("[History] Failed to delete:", err));
                               }}
                               className="opacity-0 group-hover:opacity-100 p-1 text-red-500/50 hover:text-red-500 transition-all"
                             >
@@ -2281,8 +4482,10 @@ export default function App() {
                   <button
                     onClick={() => {
                       if (confirm("Hapus semua data terjemahan dan reset status?")) {
+                        supersedeRun('cancel');
                         setTextPairs([]);
                         setFileName(null);
+                        setBookId(null);
                         setFileUrl(null);
                         setProgress(0);
                         localStorage.removeItem('gemini_daily_usage');
@@ -2306,7 +4509,7 @@ export default function App() {
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept=".pdf,.txt"
+        accept=".pdf,.txt,.epub,.srt,.vtt"
         className="hidden"
       />
     </div>
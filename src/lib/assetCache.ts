@@ -0,0 +1,57 @@
+// Files the user uploads in place of bundled assets (OCR language data, PDF
+// fonts). Uploads live in the Cache API under the same path the bundled copy
+// is served from, so either source is found by file name.
+
+export interface AssetStore {
+  // Stores the accepted files and returns their names
+  save: (files: File[]) => Promise<string[]>;
+  list: () => Promise<string[]>;
+  remove: (fileName: string) => Promise<void>;
+  // The uploaded copy, if there is one
+  uploaded: (fileName: string) => Promise<Response | undefined>;
+}
+
+interface AssetStoreOptions {
+  cacheName: string;
+  path: string;        // e.g. "/fonts"
+  accept: RegExp;      // file names that belong in this store
+  contentType: string;
+}
+
+export const createAssetStore = ({ cacheName, path, accept, contentType }: AssetStoreOptions): AssetStore => {
+  const urlOf = (fileName: string) => `${path}/${fileName}`;
+  return {
+    save: async (files) => {
+      const cache = await caches.open(cacheName);
+      const saved: string[] = [];
+      for (const file of files) {
+        if (!accept.test(file.name)) continue;
+        await cache.put(urlOf(file.name), new Response(file, {
+          headers: { 'Content-Type': contentType }
+        }));
+        saved.push(file.name);
+      }
+      return saved;
+    },
+    list: async () => {
+      const cache = await caches.open(cacheName);
+      const keys = await cache.keys();
+      return keys
+        .map(k => decodeURIComponent(k.url.split('/').pop() || ''))
+        .filter(name => accept.test(name));
+    },
+    remove: async (fileName) => {
+      const cache = await caches.open(cacheName);
+      await cache.delete(urlOf(fileName));
+    },
+    uploaded: async (fileName) => {
+      const cache = await caches.open(cacheName);
+      return cache.match(urlOf(fileName));
+    }
+  };
+};
+
+// A missing bundled file comes back as the SPA's index.html, which is
+// treated as not found
+export const isBundledAsset = (resp: Response) =>
+  resp.ok && !(resp.headers.get('Content-Type') || '').includes('text/html');
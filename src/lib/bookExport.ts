@@ -0,0 +1,115 @@
+// Shared groundwork for the book exporters (EPUB, PDF): what a sentence
+// carries into an export, how sentences form paragraphs, and how a book is
+// split into chapters when its source format doesn't say.
+
+export interface ExportPair {
+  original: string;
+  translated: string;
+  status: 'pending' | 'translating' | 'completed' | 'error';
+  page?: number;
+  endPage?: number;
+  chapter?: number;
+  chapterTitle?: string;
+  paragraphStart?: boolean;
+  lang?: string; // Per-sentence source language in mixed books
+}
+
+export type ChapterMode = 'auto' | 'headings' | 'pages';
+
+export interface ExportChapter {
+  title: string;
+  titleLang: string;
+  heading?: ExportPair; // Detected heading sentence the title came from
+  pairs: ExportPair[];
+}
+
+// Skipped sentences count as translated: they already are in the target language
+export const translationOf = (pair: ExportPair): string | null =>
+  pair.status === 'completed' && pair.translated ? pair.translated : null;
+
+// Sentences of one paragraph. Books without paragraph marks (subtitles,
+// older history entries) get one paragraph per sentence.
+export const groupParagraphs = (pairs: ExportPair[], hasParagraphs: boolean): ExportPair[][] => {
+  const paragraphs: ExportPair[][] = [];
+  for (const pair of pairs) {
+    if (!hasParagraphs || pair.paragraphStart || paragraphs.length === 0) paragraphs.push([pair]);
+    else paragraphs[paragraphs.length - 1].push(pair);
+  }
+  return paragraphs;
+};
+
+export const hasParagraphMarks = (pairs: ExportPair[]) => pairs.some(p => p.paragraphStart);
+
+// "Chapter 3", "BAB IV", "Part Two: ...", "Prologue", or a lone numeral
+const HEADING = /^(?:(?:chapter|bab|part|bagian|book|buku|kapitel|teil|chapitre|partie|cap[ií]tulo|parte|capitolo|hoofdstuk|deel)\s+(?:\d+|[ivxlcdm]+|\p{L}+)\b|(?:prologue?|epilogue?|prolog|epilog|pr[oó]logo|ep[ií]logo)\b|(?:\d{1,3}|[IVXLC]{1,7})\.?$)/iu;
+
+export const isHeading = (pair: ExportPair, hasParagraphs: boolean) =>
+  pair.original.length <= 80 &&
+  (!hasParagraphs || !!pair.paragraphStart) &&
+  HEADING.test(pair.original.trim());
+
+const SENTENCES_PER_PART = 300;
+
+export const splitChapters = (
+  pairs: ExportPair[],
+  mode: ChapterMode,
+  pagesPerChapter: number,
+  sourceLang: string,
+  targetLang: string
+): ExportChapter[] => {
+  if (pairs.length === 0) return [];
+  const hasParagraphs = hasParagraphMarks(pairs);
+  const headingTitle = (pair: ExportPair) => {
+    const translated = translationOf(pair);
+    return translated
+      ? { title: translated, titleLang: targetLang }
+      : { title: pair.original, titleLang: pair.lang || sourceLang };
+  };
+
+  // EPUB books keep their own chapters
+  if (mode === 'auto' && pairs.some(p => p.chapter !== undefined)) {
+    const chapters: ExportChapter[] = [];
+    pairs.forEach((pair, i) => {
+      if (i === 0 || pair.chapter !== pairs[i - 1].chapter) {
+        chapters.push({ title: pair.chapterTitle || `Bab ${pair.chapter ?? chapters.length + 1}`, titleLang: sourceLang, pairs: [] });
+      }
+      chapters[chapters.length - 1].pairs.push(pair);
+    });
+    return chapters;
+  }
+
+  // A detected heading opens a chapter and becomes its title
+  const headings = pairs.filter(p => isHeading(p, hasParagraphs));
+  if (mode === 'headings' || (mode === 'auto' && headings.length >= 2)) {
+    const chapters: ExportChapter[] = [];
+    for (const pair of pairs) {
+      if (isHeading(pair, hasParagraphs)) {
+        chapters.push({ ...headingTitle(pair), heading: pair, pairs: [] });
+      } else {
+        if (chapters.length === 0) chapters.push({ title: 'Awal', titleLang: 'id', pairs: [] });
+        chapters[chapters.length - 1].pairs.push(pair);
+      }
+    }
+    if (chapters.length > 0) return chapters;
+  }
+
+  // Fixed page ranges, or fixed-size parts for formats without pages
+  const hasPages = pairs.some(p => p.page !== undefined);
+  const span = Math.max(1, Math.round(pagesPerChapter) || 1);
+  const chapters: ExportChapter[] = [];
+  let currentKey = -1;
+  pairs.forEach((pair, i) => {
+    const key = hasPages
+      ? Math.floor(((pair.page ?? 1) - 1) / span)
+      : Math.floor(i / SENTENCES_PER_PART);
+    if (key !== currentKey) {
+      currentKey = key;
+      const title = hasPages
+        ? `Halaman ${key * span + 1}–${(key + 1) * span}`
+        : `Bagian ${key + 1}`;
+      chapters.push({ title, titleLang: 'id', pairs: [] });
+    }
+    chapters[chapters.length - 1].pairs.push(pair);
+  });
+  return chapters;
+};
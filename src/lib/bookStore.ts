@@ -0,0 +1,127 @@
+import type { GlossaryEntry } from './glossary';
+import { BOOKS_STORE, openReaderDB, requestToPromise, SENTENCES_STORE, transactionDone } from './db';
+
+// Per-book reading history in IndexedDB: one metadata record per book and one
+// record per sentence, so saving after a batch only touches the changed rows.
+
+export interface BookRecord {
+  id: string; // Content hash of the file (see hashFile); the file name for pre-hash records
+  fileName: string; // Display label only
+  date: string;
+  progress: number;
+  sentenceCount: number;
+  updatedAt: number;
+  sourceLang?: string;
+  targetLang?: string;
+  detectedLang?: {
+    code: string;
+    confidence: number;
+    mixed: boolean;
+  };
+  glossary?: GlossaryEntry[];
+}
+
+interface SentenceRecord<P> {
+  bookId: string;
+  index: number;
+  pair: P;
+}
+
+const LEGACY_HISTORY_KEY = 'translation_history';
+
+const sentenceRange = (bookId: string) => IDBKeyRange.bound([bookId, 0], [bookId, Infinity]);
+
+export const listBooks = async (): Promise<BookRecord[]> => {
+  const db = await openReaderDB();
+  const books = await requestToPromise<BookRecord[]>(
+    db.transaction(BOOKS_STORE).objectStore(BOOKS_STORE).index('updatedAt').getAll()
+  );
+  return books.reverse();
+};
+
+export const loadBookSentences = async <P>(bookId: string): Promise<P[]> => {
+  const db = await openReaderDB();
+  const records = await requestToPromise<SentenceRecord<P>[]>(
+    db.transaction(SENTENCES_STORE).objectStore(SENTENCES_STORE).getAll(sentenceRange(bookId))
+  );
+  return records.map(r => r.pair);
+};
+
+// Replaces the book and all of its sentences
+export const saveBook = async <P>(book: BookRecord, pairs: P[]) => {
+  const db = await openReaderDB();
+  const tx = db.transaction([BOOKS_STORE, SENTENCES_STORE], 'readwrite');
+  const sentences = tx.objectStore(SENTENCES_STORE);
+  sentences.delete(sentenceRange(book.id));
+  pairs.forEach((pair, index) => sentences.put({ bookId: book.id, index, pair }));
+  tx.objectStore(BOOKS_STORE).put({ ...book, sentenceCount: pairs.length });
+  await transactionDone(tx);
+};
+
+// Writes the book metadata and only the given sentences
+export const updateBook = async <P>(book: BookRecord, changes: { index: number; pair: P }[]) => {
+  const db = await openReaderDB();
+  const tx = db.transaction([BOOKS_STORE, SENTENCES_STORE], 'readwrite');
+  const sentences = tx.objectStore(SENTENCES_STORE);
+  changes.forEach(({ index, pair }) => sentences.put({ bookId: book.id, index, pair }));
+  tx.objectStore(BOOKS_STORE).put(book);
+  await transactionDone(tx);
+};
+
+// Records saved before books were fingerprinted are keyed by file name
+export const isLegacyBookRecord = (book: BookRecord) => book.id === book.fileName;
+
+// Moves a book and its sentences to a new id in one transaction
+export const rekeyBook = async (oldId: string, newId: string) => {
+  const db = await openReaderDB();
+  const tx = db.transaction([BOOKS_STORE, SENTENCES_STORE], 'readwrite');
+  const books = tx.objectStore(BOOKS_STORE);
+  const sentences = tx.objectStore(SENTENCES_STORE);
+
+  const book = await requestToPromise<BookRecord | undefined>(books.get(oldId));
+  if (!book) return;
+  const records = await requestToPromise<SentenceRecord<unknown>[]>(sentences.getAll(sentenceRange(oldId)));
+  records.forEach(r => sentences.put({ ...r, bookId: newId }));
+  sentences.delete(sentenceRange(oldId));
+  books.delete(oldId);
+  books.put({ ...book, id: newId });
+  await transactionDone(tx);
+};
+
+export const deleteBook = async (bookId: string) => {
+  const db = await openReaderDB();
+  const tx = db.transaction([BOOKS_STORE, SENTENCES_STORE], 'readwrite');
+  tx.objectStore(SENTENCES_STORE).delete(sentenceRange(bookId));
+  tx.objectStore(BOOKS_STORE).delete(bookId);
+  await transactionDone(tx);
+};
+
+// Moves the old localStorage history (one JSON array of whole books) into
+// IndexedDB. The localStorage copy is removed only after every book is saved.
+export const migrateLegacyHistory = async () => {
+  const saved = localStorage.getItem(LEGACY_HISTORY_KEY);
+  if (!saved) return;
+
+  let entries: any[];
+  try {
+    entries = JSON.parse(saved);
+  } catch {
+    localStorage.removeItem(LEGACY_HISTORY_KEY);
+    return;
+  }
+  if (!Array.isArray(entries)) return;
+
+  // Oldest first so the newest ends up with the latest updatedAt
+  const now = Date.now();
+  for (const [i, entry] of [...entries].reverse().entries()) {
+    if (!entry?.fileName || !Array.isArray(entry.textPairs)) continue;
+    const { textPairs, ...meta } = entry;
+    await saveBook({
+      ...meta,
+      id: entry.fileName,
+      sentenceCount: textPairs.length,
+      updatedAt: now - entries.length + i
+    }, textPairs);
+  }
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
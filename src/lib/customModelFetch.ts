@@ -0,0 +1,86 @@
+// Serves uploaded custom-model files for Transformers.js requests to /custom-model/.
+// Used by the main thread (fallback for the Service Worker) and by the
+// translator worker, whose fetches the window override can't see.
+
+type FetchFn = (...args: any[]) => Promise<Response>;
+
+export const createCustomModelFetch = (
+  originalFetch: FetchFn,
+  getFiles: () => Map<string, Blob> | undefined,
+  log?: (msg: string) => void
+): FetchFn => async (...args: any[]) => {
+  if (args.length === 0) return originalFetch(...args);
+  let url = '';
+
+  if (args[0] instanceof Request) {
+    url = args[0].url;
+  } else {
+    url = typeof args[0] === 'string' ? args[0] : (args[0] as URL).toString();
+  }
+
+  // Intercept ALL requests for custom-model files (main thread fallback for Service Worker)
+  if (url.includes('/custom-model/')) {
+    // Strip query strings (Transformers.js adds ?v=... to some requests)
+    const cleanUrl = url.split('?')[0];
+    const parts = cleanUrl.split('/custom-model/');
+    const filenameWithPossiblyPath = parts[parts.length - 1];
+    const filenameOnly = filenameWithPossiblyPath.split('/').pop() || '';
+    const files = getFiles();
+
+    if (files && files.size > 0) {
+      // Try exact match first
+      let blob = files.get(filenameWithPossiblyPath) || files.get(filenameOnly);
+
+      // Fuzzy fallback for .onnx files
+      if (!blob && filenameOnly.endsWith('.onnx')) {
+        const filenames = Array.from(files.keys());
+        // If we're looking for encoder/decoder, try to find them specifically
+        // Also recognize "merged" models which contain decoder in a single file
+        const isEncoder = filenameOnly.toLowerCase().includes('encoder');
+        const isDecoder = filenameOnly.toLowerCase().includes('decoder') || filenameOnly.toLowerCase().includes('merged');
+
+        if (isEncoder) {
+          const match = filenames.find(k => k.toLowerCase().includes('encoder') && k.endsWith('.onnx'));
+          if (match) blob = files.get(match);
+        } else if (isDecoder) {
+          // First try exact decoder match, then try merged model
+          let match = filenames.find(k => k.toLowerCase().includes('decoder') && k.endsWith('.onnx'));
+          if (!match) {
+            // Try to find merged model (single file with both encoder+decoder)
+            match = filenames.find(k => k.toLowerCase().includes('merged') && k.endsWith('.onnx'));
+          }
+          if (match) blob = files.get(match);
+        }
+
+        // If still no blob, just take any .onnx if there's only one
+        if (!blob) {
+          const onnxFiles = filenames.filter(k => k.endsWith('.onnx'));
+          if (onnxFiles.length === 1) blob = files.get(onnxFiles[0]);
+        }
+      }
+
+      if (blob) {
+        const msg = `[Fetch] ✅ Serving LOKAL: ${filenameOnly} (${(blob.size / 1024 / 1024).toFixed(2)} MB)`;
+        console.log(msg);
+        log?.(msg);
+        return new Response(blob, {
+          status: 200,
+          headers: {
+            'Content-Type': blob.type || (filenameOnly.endsWith('.json') ? 'application/json' : 'application/octet-stream'),
+            'Access-Control-Allow-Origin': '*'
+          }
+        });
+      }
+
+      // Return 404 for missing files
+      const errMsg = `[Fetch] ⚠️ 404: ${filenameOnly} (optional)`;
+      console.warn(errMsg);
+      log?.(errMsg);
+      return new Response(`File not found: ${filenameOnly}`, {
+        status: 404,
+        headers: { 'Content-Type': 'text/plain' }
+      });
+    }
+  }
+  return originalFetch(...args);
+};
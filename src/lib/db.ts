@@ -0,0 +1,63 @@
+// Promise wrappers around the app's IndexedDB database.
+// Custom model files still live in the older 'ModelStorage' database.
+
+const DB_NAME = 'ReaderData';
+const DB_VERSION = 2;
+
+export const MEMORY_STORE = 'translation_memory';
+export const BOOKS_STORE = 'books';
+export const SENTENCES_STORE = 'sentences';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openReaderDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEMORY_STORE)) {
+          const store = db.createObjectStore(MEMORY_STORE, { keyPath: 'key' });
+          store.createIndex('pairLength', ['pair', 'length']);
+          store.createIndex('lastUsedAt', 'lastUsedAt');
+        }
+        if (!db.objectStoreNames.contains(BOOKS_STORE)) {
+          db.createObjectStore(BOOKS_STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+        if (!db.objectStoreNames.contains(SENTENCES_STORE)) {
+          // One record per sentence so a batch only rewrites what changed
+          db.createObjectStore(SENTENCES_STORE, { keyPath: ['bookId', 'index'] });
+        }
+      };
+      request.onsuccess = () => {
+        // Let a newer tab upgrade the schema instead of blocking it
+        request.result.onversionchange = () => {
+          request.result.close();
+          dbPromise = null;
+        };
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Gagal membuka IndexedDB."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaksi IndexedDB dibatalkan."));
+  });
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
@@ -0,0 +1,174 @@
+import { unzipSync, strFromU8 } from 'fflate';
+
+// Minimal EPUB 2/3 reader: container.xml → OPF → spine order → XHTML text.
+// Chapter titles come from the EPUB 3 nav document or the EPUB 2 NCX,
+// falling back to the first heading of each spine item.
+
+export interface EpubChapter {
+  index: number; // 1-based, follows spine order
+  title: string;
+  paragraphs: string[];
+}
+
+export interface EpubBook {
+  title: string;
+  language?: string;
+  chapters: EpubChapter[];
+}
+
+const BLOCK_TAGS = new Set([
+  'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'BLOCKQUOTE', 'PRE',
+  'TD', 'TH', 'DT', 'DD', 'FIGCAPTION', 'SECTION', 'ARTICLE', 'ASIDE', 'HEADER', 'FOOTER'
+]);
+
+const resolvePath = (base: string, href: string): string => {
+  const clean = decodeURIComponent(href.split('#')[0]);
+  const parts = (base ? base + '/' + clean : clean).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const parseXml = (text: string, type: DOMParserSupportedType = 'application/xml') =>
+  new DOMParser().parseFromString(text, type);
+
+// Collects the text of every block element, leaving nested blocks to themselves
+// so a <div> wrapping several <p> doesn't produce the same text twice.
+const extractParagraphs = (body: Element): string[] => {
+  const paragraphs: string[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    const text = buffer.replace(/\s+/g, ' ').trim();
+    if (text) paragraphs.push(text);
+    buffer = '';
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      buffer += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.tagName.toUpperCase();
+    if (tag === 'SCRIPT' || tag === 'STYLE') return;
+    if (tag === 'BR') {
+      buffer += ' ';
+      return;
+    }
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+    el.childNodes.forEach(walk);
+    if (isBlock) flush();
+  };
+
+  walk(body);
+  flush();
+  return paragraphs;
+};
+
+const readTocTitles = (files: Record<string, Uint8Array>, opf: Document, opfDir: string): Map<string, string> => {
+  const titles = new Map<string, string>();
+  const items = Array.from(opf.getElementsByTagName('item'));
+
+  // EPUB 3 navigation document
+  const navItem = items.find(i => (i.getAttribute('properties') || '').split(' ').includes('nav'));
+  if (navItem) {
+    const navPath = resolvePath(opfDir, navItem.getAttribute('href') || '');
+    const navData = files[navPath];
+    if (navData) {
+      const nav = parseXml(strFromU8(navData), 'application/xhtml+xml');
+      const navDir = dirname(navPath);
+      Array.from(nav.getElementsByTagName('a')).forEach(a => {
+        const href = a.getAttribute('href');
+        const text = (a.textContent || '').replace(/\s+/g, ' ').trim();
+        if (href && text) {
+          const target = resolvePath(navDir, href);
+          if (!titles.has(target)) titles.set(target, text);
+        }
+      });
+    }
+  }
+
+  // EPUB 2 NCX
+  if (titles.size === 0) {
+    const ncxItem = items.find(i => i.getAttribute('media-type') === 'application/x-dtbncx+xml');
+    const ncxData = ncxItem ? files[resolvePath(opfDir, ncxItem.getAttribute('href') || '')] : undefined;
+    if (ncxItem && ncxData) {
+      const ncxDir = dirname(resolvePath(opfDir, ncxItem.getAttribute('href') || ''));
+      const ncx = parseXml(strFromU8(ncxData));
+      Array.from(ncx.getElementsByTagName('navPoint')).forEach(point => {
+        const label = point.getElementsByTagName('text')[0]?.textContent?.trim();
+        const src = point.getElementsByTagName('content')[0]?.getAttribute('src');
+        if (label && src) {
+          const target = resolvePath(ncxDir, src);
+          if (!titles.has(target)) titles.set(target, label);
+        }
+      });
+    }
+  }
+
+  return titles;
+};
+
+export const parseEpub = async (file: File): Promise<EpubBook> => {
+  const files = unzipSync(new Uint8Array(await file.arrayBuffer()));
+
+  const containerData = files['META-INF/container.xml'];
+  if (!containerData) {
+    throw new Error("File EPUB tidak valid: META-INF/container.xml tidak ditemukan.");
+  }
+  const container = parseXml(strFromU8(containerData));
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath || !files[opfPath]) {
+    throw new Error("File EPUB tidak valid: paket OPF tidak ditemukan.");
+  }
+
+  const opf = parseXml(strFromU8(files[opfPath]));
+  const opfDir = dirname(opfPath);
+
+  const manifest = new Map<string, string>();
+  Array.from(opf.getElementsByTagName('item')).forEach(item => {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (id && href) manifest.set(id, resolvePath(opfDir, href));
+  });
+
+  const tocTitles = readTocTitles(files, opf, opfDir);
+  const chapters: EpubChapter[] = [];
+
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    if (itemref.getAttribute('linear') === 'no') continue;
+    const path = manifest.get(itemref.getAttribute('idref') || '');
+    const data = path ? files[path] : undefined;
+    if (!path || !data) continue;
+
+    const doc = parseXml(strFromU8(data), 'application/xhtml+xml');
+    // Fall back to the lenient HTML parser for malformed XHTML
+    const body = doc.getElementsByTagName('parsererror').length > 0
+      ? parseXml(strFromU8(data), 'text/html').body
+      : doc.getElementsByTagName('body')[0];
+    if (!body) continue;
+
+    const paragraphs = extractParagraphs(body);
+    if (paragraphs.length === 0) continue;
+
+    const heading = body.querySelector('h1, h2, h3')?.textContent?.replace(/\s+/g, ' ').trim();
+    chapters.push({
+      index: chapters.length + 1,
+      title: tocTitles.get(path) || heading || `Bab ${chapters.length + 1}`,
+      paragraphs
+    });
+  }
+
+  const title = opf.getElementsByTagName('dc:title')[0]?.textContent?.trim() || file.name;
+  const language = opf.getElementsByTagName('dc:language')[0]?.textContent?.trim() || undefined;
+
+  return { title, language, chapters };
+};
@@ -0,0 +1,195 @@
+import { zipSync, strToU8 } from 'fflate';
+import { getLanguage, isRightToLeft } from './languages';
+import {
+  ChapterMode, ExportChapter, ExportPair, groupParagraphs, hasParagraphMarks, splitChapters, translationOf
+} from './bookExport';
+
+// EPUB 3 writer for a translated book. Every paragraph carries its language
+// (lang + xml:lang, and dir for right-to-left scripts), so e-readers pick the
+// right fonts, hyphenation and dictionary for each side. An NCX is included
+// next to the EPUB 3 nav document for older readers.
+
+export type EpubLayout = 'interleaved' | 'translation' | 'table';
+
+export interface EpubExportOptions {
+  title: string;
+  author?: string;
+  identifier: string;
+  sourceLang: string;
+  targetLang: string;
+  layout: EpubLayout;
+  chapterMode: ChapterMode;
+  pagesPerChapter: number;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const langAttrs = (code: string) =>
+  `lang="${code}" xml:lang="${code}"${isRightToLeft(code) ? ' dir="rtl"' : ''}`;
+
+const chapterFile = (i: number) => `chapter-${String(i + 1).padStart(3, '0')}.xhtml`;
+
+const STYLE = `body { margin: 0 0.5em; line-height: 1.5; }
+h1 { font-size: 1.4em; margin: 1em 0 0.2em; }
+p { margin: 0 0 0.6em; text-indent: 0; }
+.heading-original { font-style: italic; color: #666; margin-bottom: 1.2em; }
+.pair { margin-bottom: 1em; }
+.pair .original { color: #555; margin-bottom: 0.2em; }
+.pair .translation { margin-bottom: 0; }
+.untranslated { color: #999; font-style: italic; }
+table.parallel { width: 100%; border-collapse: collapse; }
+table.parallel th { text-align: left; font-size: 0.8em; color: #777; border-bottom: 1px solid #ccc; }
+table.parallel td { vertical-align: top; width: 50%; padding: 0.3em 0.4em; }
+table.parallel td p { margin: 0; }
+`;
+
+const renderChapter = (chapter: ExportChapter, index: number, options: EpubExportOptions, hasParagraphs: boolean) => {
+  const { sourceLang: source, targetLang: target, layout } = options;
+
+  // Sentences in another language than their paragraph get their own tag
+  const originalText = (pair: ExportPair) => {
+    const lang = pair.lang || source;
+    const text = escapeXml(pair.original);
+    return lang === source ? text : `<span ${langAttrs(lang)}>${text}</span>`;
+  };
+  const translatedText = (pair: ExportPair) => {
+    const translated = translationOf(pair);
+    return translated !== null
+      ? escapeXml(translated)
+      : `<span class="untranslated" ${langAttrs(pair.lang || source)}>${escapeXml(pair.original)}</span>`;
+  };
+  const original = (paragraph: ExportPair[], tag = 'p', cls = 'original') =>
+    `<${tag} class="${cls}" ${langAttrs(source)}>${paragraph.map(originalText).join(' ')}</${tag}>`;
+  const translation = (paragraph: ExportPair[], tag = 'p', cls = 'translation') =>
+    `<${tag} class="${cls}" ${langAttrs(target)}>${paragraph.map(translatedText).join(' ')}</${tag}>`;
+
+  const paragraphs = groupParagraphs(chapter.pairs, hasParagraphs);
+  let body: string;
+  if (layout === 'translation') {
+    body = paragraphs.map(p => translation(p)).join('\n');
+  } else if (layout === 'table') {
+    const head = `<thead><tr><th ${langAttrs('id')}>${escapeXml(getLanguage(source).label)}</th><th ${langAttrs('id')}>${escapeXml(getLanguage(target).label)}</th></tr></thead>`;
+    const rows = paragraphs.map(p => `<tr><td>${original(p)}</td><td>${translation(p)}</td></tr>`);
+    body = paragraphs.length > 0 ? `<table class="parallel">${head}<tbody>\n${rows.join('\n')}\n</tbody></table>` : '';
+  } else {
+    body = paragraphs.map(p => `<div class="pair">${original(p)}${translation(p)}</div>`).join('\n');
+  }
+
+  // The heading's other language sits under the title, except in translation-only books
+  const heading = chapter.heading && layout !== 'translation' && chapter.titleLang === target
+    ? `\n${original([chapter.heading], 'p', 'heading-original')}`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" ${langAttrs(target)}>
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(chapter.title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<section epub:type="chapter" id="chapter-${index + 1}">
+<h1 ${langAttrs(chapter.titleLang)}>${escapeXml(chapter.title)}</h1>${heading}
+${body}
+</section>
+</body>
+</html>
+`;
+};
+
+const renderNav = (chapters: ExportChapter[], options: EpubExportOptions) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" ${langAttrs(options.targetLang)}>
+<head>
+<meta charset="utf-8"/>
+<title>${escapeXml(options.title)}</title>
+</head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1 ${langAttrs('id')}>Daftar Isi</h1>
+<ol>
+${chapters.map((c, i) => `<li><a href="${chapterFile(i)}" ${langAttrs(c.titleLang)}>${escapeXml(c.title)}</a></li>`).join('\n')}
+</ol>
+</nav>
+</body>
+</html>
+`;
+
+const renderNcx = (chapters: ExportChapter[], options: EpubExportOptions) => `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${options.targetLang}">
+<head>
+<meta name="dtb:uid" content="${escapeXml(options.identifier)}"/>
+<meta name="dtb:depth" content="1"/>
+<meta name="dtb:totalPageCount" content="0"/>
+<meta name="dtb:maxPageNumber" content="0"/>
+</head>
+<docTitle><text>${escapeXml(options.title)}</text></docTitle>
+<navMap>
+${chapters.map((c, i) => `<navPoint id="nav-${i + 1}" playOrder="${i + 1}"><navLabel><text>${escapeXml(c.title)}</text></navLabel><content src="${chapterFile(i)}"/></navPoint>`).join('\n')}
+</navMap>
+</ncx>
+`;
+
+const renderOpf = (chapters: ExportChapter[], options: EpubExportOptions) => {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+  const languages = options.layout === 'translation'
+    ? [options.targetLang]
+    : [options.targetLang, options.sourceLang];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${options.targetLang}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${escapeXml(options.identifier)}</dc:identifier>
+<dc:title>${escapeXml(options.title)}</dc:title>
+${languages.map(l => `<dc:language>${l}</dc:language>`).join('\n')}
+${options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>\n` : ''}<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${chapters.map((_, i) => `<item id="chapter-${i + 1}" href="${chapterFile(i)}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine toc="ncx"${isRightToLeft(options.targetLang) ? ' page-progression-direction="rtl"' : ''}>
+${chapters.map((_, i) => `<itemref idref="chapter-${i + 1}"/>`).join('\n')}
+</spine>
+</package>
+`;
+};
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+export const buildEpub = (pairs: ExportPair[], options: EpubExportOptions): Uint8Array => {
+  const chapters = splitChapters(pairs, options.chapterMode, options.pagesPerChapter, options.sourceLang, options.targetLang);
+  if (chapters.length === 0) {
+    chapters.push({ title: options.title, titleLang: options.targetLang, pairs: [] });
+  }
+  const hasParagraphs = hasParagraphMarks(pairs);
+
+  // The mimetype entry must come first and be stored uncompressed
+  const files: Record<string, Uint8Array | [Uint8Array, { level: 0 }]> = {
+    mimetype: [strToU8('application/epub+zip'), { level: 0 }],
+    'META-INF/container.xml': strToU8(CONTAINER),
+    'OEBPS/content.opf': strToU8(renderOpf(chapters, options)),
+    'OEBPS/nav.xhtml': strToU8(renderNav(chapters, options)),
+    'OEBPS/toc.ncx': strToU8(renderNcx(chapters, options)),
+    'OEBPS/style.css': strToU8(STYLE)
+  };
+  chapters.forEach((chapter, i) => {
+    files[`OEBPS/${chapterFile(i)}`] = strToU8(renderChapter(chapter, i, options, hasParagraphs));
+  });
+  return zipSync(files);
+};
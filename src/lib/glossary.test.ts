@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { createGlossaryChecker, GlossaryEntry, maskTerms, restoreTerms } from './glossary';
+
+let nextId = 0;
+const entry = (term: string, translation: string, options: Partial<GlossaryEntry> = {}): GlossaryEntry => ({
+  id: String(nextId++),
+  term,
+  translation,
+  keep: false,
+  caseSensitive: false,
+  ...options
+});
+
+describe('maskTerms', () => {
+  it('replaces whole-word terms with numbered placeholders', () => {
+    const { text, slots } = maskTerms('The Ministry sent Harry home.', [
+      entry('Ministry', 'Kementerian'),
+      entry('Harry', '', { keep: true })
+    ]);
+    expect(text).toBe('The __T0__ sent __T1__ home.');
+    expect(slots).toEqual(['Kementerian', 'Harry']);
+  });
+
+  it('masks the longest of overlapping terms', () => {
+    const { text, slots } = maskTerms('New York City is not New York state.', [
+      entry('New York', 'New York'),
+      entry('New York City', 'Kota New York')
+    ]);
+    expect(text).toBe('__T0__ is not __T1__ state.');
+    expect(slots).toEqual(['Kota New York', 'New York']);
+  });
+
+  it('respects case sensitivity', () => {
+    const entries = [entry('Apple', 'Apple', { keep: true, caseSensitive: true }), entry('muggle', 'muggle', { keep: true })];
+    expect(maskTerms('An apple for a Muggle.', entries).text).toBe('An apple for a __T0__.');
+    expect(maskTerms('Apple shares rose.', entries).text).toBe('__T0__ shares rose.');
+  });
+
+  it('only matches whole words, also outside Latin script', () => {
+    const entries = [entry('cat', 'kucing'), entry('東京', 'Tokyo')];
+    expect(maskTerms('Concatenate the cat.', entries).text).toBe('Concatenate the __T0__.');
+    expect(maskTerms('東京都に行く。', entries).slots).toEqual([]);
+    expect(maskTerms('行き先は 東京 です。', entries).text).toBe('行き先は __T0__ です。');
+  });
+
+  it('ignores incomplete entries', () => {
+    expect(maskTerms('Harry left.', [entry('Harry', ''), entry(' ', 'x')])).toEqual({ text: 'Harry left.', slots: [] });
+  });
+
+  it('leaves text that already looks like a placeholder unmasked', () => {
+    const text = 'Fill in __T0__ and tell Harry.';
+    expect(maskTerms(text, [entry('Harry', 'Harry', { keep: true })])).toEqual({ text, slots: [] });
+  });
+});
+
+describe('restoreTerms', () => {
+  it('puts the required output back', () => {
+    expect(restoreTerms('__T0__ mengirim __T1__ pulang.', ['Kementerian', 'Harry'])).toBe('Kementerian mengirim Harry pulang.');
+  });
+
+  it('tolerates placeholders the model respaced or lowercased', () => {
+    expect(restoreTerms('Dari __t0__ ke __ T1 __.', ['Jakarta', 'Bandung'])).toBe('Dari Jakarta ke Bandung.');
+  });
+
+  it('leaves ordinary underscores and numbers alone', () => {
+    expect(restoreTerms('Isi _1_ dan __2 _ lalu __T0__.', ['Harry'])).toBe('Isi _1_ dan __2 _ lalu Harry.');
+  });
+
+  it('only restores indices that were masked', () => {
+    expect(restoreTerms('__T0__ dan __T3__', ['Harry'])).toBe('Harry dan __T3__');
+  });
+
+  it('returns the translation unchanged without slots', () => {
+    expect(restoreTerms('Tetap __T0__.', [])).toBe('Tetap __T0__.');
+  });
+});
+
+describe('createGlossaryChecker', () => {
+  it('reports terms whose required output is missing', () => {
+    const check = createGlossaryChecker([entry('Ministry', 'Kementerian'), entry('wand', 'tongkat')]);
+    expect(check('The Ministry took his wand.', 'Kementerian mengambil tongkatnya.')).toEqual([]);
+    expect(check('The Ministry took his wand.', 'Departemen mengambil tongkatnya.')).toEqual(['Ministry']);
+    expect(check('Nothing here.', 'Tidak ada.')).toEqual([]);
+  });
+
+  it('checks kept terms verbatim', () => {
+    const check = createGlossaryChecker([entry('Hogwarts', '', { keep: true })]);
+    expect(check('Back to Hogwarts.', 'Kembali ke Hogwarts.')).toEqual([]);
+    expect(check('Back to Hogwarts.', 'Kembali ke sekolah.')).toEqual(['Hogwarts']);
+  });
+
+  it('compares case-insensitively unless the entry is case sensitive', () => {
+    const check = createGlossaryChecker([
+      entry('ministry', 'Kementerian'),
+      entry('Apple', 'Apple', { keep: true, caseSensitive: true })
+    ]);
+    expect(check('The MINISTRY decided.', 'kementerian memutuskan.')).toEqual([]);
+    expect(check('Apple won.', 'apple menang.')).toEqual(['Apple']);
+    expect(check('An apple fell.', 'Sebuah apel jatuh.')).toEqual([]);
+  });
+
+  it('matches terms in the original as whole words', () => {
+    const check = createGlossaryChecker([entry('cat', 'kucing')]);
+    expect(check('Concatenate them.', 'Gabungkan.')).toEqual([]);
+  });
+
+  it('checks overlapping terms independently', () => {
+    const check = createGlossaryChecker([entry('New York', 'New York'), entry('New York City', 'Kota New York')]);
+    expect(check('New York City at night.', 'Kota New York di malam hari.')).toEqual([]);
+    expect(check('New York City at night.', 'New York di malam hari.')).toEqual(['New York City']);
+  });
+});
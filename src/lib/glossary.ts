@@ -0,0 +1,89 @@
+// Per-book glossary: terms that must always get a fixed translation or stay
+// untranslated. LLM providers receive the matching entries in the prompt;
+// the offline path masks terms with placeholders before inference. Finished
+// translations are checked afterwards so violations can be flagged.
+
+export interface GlossaryEntry {
+  id: string;
+  term: string;
+  translation: string; // ignored when `keep` is set
+  keep: boolean;       // keep the term as is
+  caseSensitive: boolean;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also works for non-Latin scripts
+const termPattern = (term: string, caseSensitive: boolean, global = false) =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim())}(?![\\p{L}\\p{N}])`, `u${caseSensitive ? '' : 'i'}${global ? 'g' : ''}`);
+
+export const requiredOutput = (entry: GlossaryEntry) => (entry.keep ? entry.term : entry.translation).trim();
+
+const usable = (entries: GlossaryEntry[]) =>
+  entries.filter(e => e.term.trim() && (e.keep || e.translation.trim()));
+
+export const findGlossaryMatches = (text: string, entries: GlossaryEntry[]): GlossaryEntry[] =>
+  usable(entries).filter(e => termPattern(e.term, e.caseSensitive).test(text));
+
+// Entries that apply to any of the texts, longest terms first
+export const glossaryForTexts = (texts: string[], entries: GlossaryEntry[]): GlossaryEntry[] =>
+  usable(entries)
+    .filter(e => texts.some(text => termPattern(e.term, e.caseSensitive).test(text)))
+    .sort((a, b) => b.term.length - a.term.length);
+
+// MarianMT-style models copy these tokens through untouched far more
+// reliably than brackets or unusual symbols. Models sometimes change the
+// case or add spaces inside them, which restoring tolerates
+const placeholder = (i: number) => `__T${i}__`;
+const PLACEHOLDER_PATTERN = /_{1,2}\s*T\s*(\d+)\s*_{1,2}/gi;
+
+export interface MaskedText {
+  text: string;
+  slots: string[]; // output for placeholder i
+}
+
+export const maskTerms = (text: string, entries: GlossaryEntry[]): MaskedText => {
+  // A text that already contains something placeholder-shaped is left alone,
+  // so restoring can never replace the text's own characters
+  if (text.search(PLACEHOLDER_PATTERN) !== -1) return { text, slots: [] };
+  const slots: string[] = [];
+  let masked = text;
+  // Longest first, so "New York City" wins over "New York"
+  for (const entry of [...usable(entries)].sort((a, b) => b.term.length - a.term.length)) {
+    masked = masked.replace(termPattern(entry.term, entry.caseSensitive, true), () => {
+      slots.push(requiredOutput(entry));
+      return placeholder(slots.length - 1);
+    });
+  }
+  return { text: masked, slots };
+};
+
+// Only indices that were masked are restored. Placeholders the model dropped
+// can't be restored; the glossary check flags those pairs
+export const restoreTerms = (translated: string, slots: string[]): string =>
+  slots.length === 0
+    ? translated
+    : translated.replace(PLACEHOLDER_PATTERN, (match, n) => {
+      const index = parseInt(n, 10);
+      return index < slots.length ? slots[index] : match;
+    });
+
+export type GlossaryChecker = (original: string, translated: string) => string[];
+
+// Compiles the term patterns once, for checking many sentences against one glossary.
+// The checker returns the terms in the original whose required output is
+// missing from the translation
+export const createGlossaryChecker = (entries: GlossaryEntry[]): GlossaryChecker => {
+  const rules = usable(entries).map(entry => ({
+    term: entry.term,
+    pattern: termPattern(entry.term, entry.caseSensitive),
+    expected: entry.caseSensitive ? requiredOutput(entry) : requiredOutput(entry).toLowerCase(),
+    caseSensitive: entry.caseSensitive
+  }));
+  return (original, translated) => {
+    const lower = translated.toLowerCase();
+    return rules
+      .filter(rule => rule.pattern.test(original) && !(rule.caseSensitive ? translated : lower).includes(rule.expected))
+      .map(rule => rule.term);
+  };
+};
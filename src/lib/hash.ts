@@ -0,0 +1,36 @@
+// cyrb53 mixing over `length` units (string char codes or file bytes),
+// returning both 32-bit halves
+const cyrb53 = (length: number, unitAt: (i: number) => number, seed = 0): [number, number] => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < length; i++) {
+    const unit = unitAt(i);
+    h1 = Math.imul(h1 ^ unit, 2654435761);
+    h2 = Math.imul(h2 ^ unit, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return [h1, h2];
+};
+
+// Fast non-cryptographic string hash (cyrb53), returned as hex.
+// Good enough for cache keys; collisions are astronomically unlikely at our sizes.
+export const hashString = (text: string, seed = 0): string => {
+  const [h1, h2] = cyrb53(text.length, i => text.charCodeAt(i), seed);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+};
+
+// Content fingerprint for imported books: SHA-256 of the file bytes.
+// WebCrypto is missing on insecure origins (plain http on a LAN address),
+// where a cyrb53-style byte hash is used instead.
+export const hashFile = async (file: Blob): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  if (globalThis.crypto?.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', buffer);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const [h1, h2] = cyrb53(bytes.length, i => bytes[i]);
+  return `weak-${(h2 >>> 0).toString(16).padStart(8, '0')}${(h1 >>> 0).toString(16).padStart(8, '0')}-${bytes.length.toString(16)}`;
+};
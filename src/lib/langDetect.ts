@@ -0,0 +1,135 @@
+// Lightweight offline language identification.
+// Non-Latin scripts are recognised by Unicode ranges; Latin-script languages
+// are scored by how many of their most frequent function words appear.
+// Good enough to pick an opus-mt pair or spot sentences already in the
+// target language — not a replacement for a trained classifier.
+
+export interface DetectionResult {
+  lang: string;
+  confidence: number; // 0..1
+}
+
+export interface BookDetection extends DetectionResult {
+  mixed: boolean;
+  distribution: Record<string, number>; // share of sampled sentences per language
+}
+
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'was', 'for', 'with', 'as', 'his', 'he', 'she', 'you', 'this', 'are', 'be', 'have', 'not', 'but', 'they', 'from', 'at', 'which', 'would', 'there', 'what', 'were'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'dari', 'dalam', 'akan', 'pada', 'juga', 'saya', 'ke', 'karena', 'ada', 'mereka', 'bisa', 'sudah', 'oleh', 'atau', 'kita', 'adalah', 'kami', 'dia', 'telah', 'seperti', 'tetapi', 'belum'],
+  ms: ['yang', 'dan', 'di', 'ini', 'itu', 'dengan', 'untuk', 'tidak', 'dari', 'dalam', 'akan', 'pada', 'juga', 'saya', 'ke', 'kerana', 'ada', 'mereka', 'boleh', 'sudah', 'oleh', 'atau', 'kita', 'ialah', 'kami', 'dia', 'telah', 'seperti', 'tetapi', 'belum'],
+  de: ['der', 'die', 'und', 'in', 'den', 'von', 'zu', 'das', 'mit', 'sich', 'des', 'auf', 'für', 'ist', 'im', 'dem', 'nicht', 'ein', 'eine', 'als', 'auch', 'es', 'an', 'er', 'sie', 'ich', 'wir', 'nach', 'wird', 'aber'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'un', 'une', 'du', 'est', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'avec', 'il', 'elle', 'ne', 'se', 'ce', 'plus', 'par', 'je', 'nous', 'vous', 'mais', 'sont'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'del', 'se', 'las', 'por', 'un', 'una', 'para', 'con', 'no', 'es', 'lo', 'como', 'más', 'pero', 'sus', 'le', 'ya', 'muy', 'también', 'fue', 'este', 'sí', 'porque'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'in', 'is', 'niet', 'op', 'zijn', 'hij', 'met', 'voor', 'ze', 'maar', 'er', 'ook', 'als', 'aan', 'nog', 'wel', 'naar', 'wat', 'bij', 'dan', 'zo'],
+  it: ['il', 'di', 'che', 'e', 'la', 'un', 'una', 'per', 'in', 'non', 'sono', 'con', 'del', 'della', 'le', 'si', 'lo', 'gli', 'ma', 'come', 'anche', 'più', 'questo', 'alla', 'dei', 'nel', 'è', 'mi', 'ha', 'ci'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'os', 'no', 'na', 'se', 'por', 'mais', 'as', 'dos', 'como', 'mas', 'foi', 'ao', 'ele', 'ela', 'das', 'seu', 'sua'],
+};
+
+const STOPWORD_SETS: Record<string, Set<string>> = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([lang, words]) => [lang, new Set(words)])
+);
+
+const SIBLINGS: Record<string, string> = { id: 'ms', ms: 'id' };
+
+// Characters that only exist in one or two of the Latin-script candidates.
+const DIACRITIC_HINTS: [RegExp, string][] = [
+  [/[äöüß]/, 'de'],
+  [/[àâçèéêëîïôûùœ]/, 'fr'],
+  [/[ñ¿¡]/, 'es'],
+  [/[ãõ]/, 'pt'],
+];
+
+const detectScript = (text: string): DetectionResult | null => {
+  const counts = {
+    kana: (text.match(/[\u3040-\u30ff]/g) || []).length,
+    han: (text.match(/[\u4e00-\u9fff]/g) || []).length,
+    hangul: (text.match(/[\uac00-\ud7af]/g) || []).length,
+    thai: (text.match(/[\u0e00-\u0e7f]/g) || []).length,
+    arabic: (text.match(/[\u0600-\u06ff]/g) || []).length,
+    cyrillic: (text.match(/[\u0400-\u04ff]/g) || []).length,
+  };
+  const letters = (text.match(/\p{L}/gu) || []).length || 1;
+
+  if (counts.kana > 0 && (counts.kana + counts.han) / letters > 0.3) {
+    return { lang: 'ja', confidence: Math.min(1, (counts.kana + counts.han) / letters) };
+  }
+  const candidates: [number, string][] = [
+    [counts.han, 'zh'],
+    [counts.hangul, 'ko'],
+    [counts.thai, 'th'],
+    [counts.arabic, 'ar'],
+    [counts.cyrillic, 'ru'],
+  ];
+  const [bestCount, bestLang] = candidates.sort((a, b) => b[0] - a[0])[0];
+  if (bestCount / letters > 0.3) {
+    return { lang: bestLang, confidence: Math.min(1, bestCount / letters) };
+  }
+  return null;
+};
+
+export const detectLanguage = (text: string): DetectionResult | null => {
+  const scripted = detectScript(text);
+  if (scripted) return scripted;
+
+  const lower = text.toLowerCase();
+  const tokens = lower.match(/\p{L}+/gu) || [];
+  if (tokens.length === 0) return null;
+
+  const scores: Record<string, number> = {};
+  for (const [lang, words] of Object.entries(STOPWORD_SETS)) {
+    scores[lang] = tokens.reduce((acc, t) => acc + (words.has(t) ? 1 : 0), 0);
+  }
+  for (const [pattern, lang] of DIACRITIC_HINTS) {
+    if (pattern.test(lower)) scores[lang] += 1;
+  }
+  // Indonesian and Malay share most function words; only the distinctive
+  // ones should tip the balance, so ties go to Indonesian.
+  scores.ms -= 0.5;
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [bestLang, best] = ranked[0];
+  if (best <= 0) return null;
+  // The sibling language is not counted as competition for the margin.
+  const second = ranked.find(([lang]) => lang !== bestLang && lang !== SIBLINGS[bestLang])?.[1] ?? 0;
+
+  // Confidence grows with the margin over the runner-up and with evidence size.
+  const margin = (best - Math.max(0, second)) / best;
+  const evidence = Math.min(1, best / 4);
+  return { lang: bestLang, confidence: Math.round(margin * evidence * 100) / 100 };
+};
+
+// Samples sentences spread evenly over the book and votes on the language.
+export const detectBookLanguage = (sentences: string[], sampleSize = 200): BookDetection | null => {
+  if (sentences.length === 0) return null;
+
+  const step = Math.max(1, Math.floor(sentences.length / sampleSize));
+  const votes: Record<string, number> = {};
+  let voted = 0;
+
+  for (let i = 0; i < sentences.length && voted < sampleSize; i += step) {
+    const result = detectLanguage(sentences[i]);
+    if (!result || result.confidence < 0.25) continue;
+    votes[result.lang] = (votes[result.lang] || 0) + result.confidence;
+    voted++;
+  }
+
+  const totalWeight = Object.values(votes).reduce((a, b) => a + b, 0);
+  if (totalWeight === 0) return null;
+
+  const distribution: Record<string, number> = {};
+  for (const [lang, weight] of Object.entries(votes)) {
+    distribution[lang] = Math.round((weight / totalWeight) * 100) / 100;
+  }
+  const [lang, share] = Object.entries(distribution).sort((a, b) => b[1] - a[1])[0];
+  const mixed = Object.entries(distribution).some(([l, s]) => l !== lang && s >= 0.1);
+
+  return { lang, confidence: share, mixed, distribution };
+};
+
+// Reads the language pair out of single-pair model ids such as
+// "Xenova/opus-mt-en-id". Returns null for multilingual or unknown models.
+export const parseModelLanguagePair = (modelId: string): { source: string; target: string } | null => {
+  const match = modelId.toLowerCase().match(/opus-mt-([a-z]{2,3})-([a-z]{2,3})/);
+  return match ? { source: match[1], target: match[2] } : null;
+};
@@ -0,0 +1,61 @@
+// Language catalogue shared by the translation engines and the UI.
+// `nllb` and `m2m` hold the codes expected by multilingual Transformers.js
+// models (NLLB-200 uses FLORES-200 codes, M2M100 uses plain ISO 639-1).
+
+export interface Language {
+  code: string; // ISO 639-1, also used for opus-mt model ids
+  name: string; // English name, used inside LLM prompts
+  label: string; // Display label for the UI
+  nllb: string;
+  m2m: string;
+}
+
+export const LANGUAGES: Language[] = [
+  { code: 'en', name: 'English', label: 'Inggris', nllb: 'eng_Latn', m2m: 'en' },
+  { code: 'id', name: 'Indonesian', label: 'Indonesia', nllb: 'ind_Latn', m2m: 'id' },
+  { code: 'de', name: 'German', label: 'Jerman', nllb: 'deu_Latn', m2m: 'de' },
+  { code: 'fr', name: 'French', label: 'Prancis', nllb: 'fra_Latn', m2m: 'fr' },
+  { code: 'ja', name: 'Japanese', label: 'Jepang', nllb: 'jpn_Jpan', m2m: 'ja' },
+  { code: 'es', name: 'Spanish', label: 'Spanyol', nllb: 'spa_Latn', m2m: 'es' },
+  { code: 'nl', name: 'Dutch', label: 'Belanda', nllb: 'nld_Latn', m2m: 'nl' },
+  { code: 'it', name: 'Italian', label: 'Italia', nllb: 'ita_Latn', m2m: 'it' },
+  { code: 'pt', name: 'Portuguese', label: 'Portugis', nllb: 'por_Latn', m2m: 'pt' },
+  { code: 'ru', name: 'Russian', label: 'Rusia', nllb: 'rus_Cyrl', m2m: 'ru' },
+  { code: 'zh', name: 'Chinese (Simplified)', label: 'Mandarin', nllb: 'zho_Hans', m2m: 'zh' },
+  { code: 'ko', name: 'Korean', label: 'Korea', nllb: 'kor_Hang', m2m: 'ko' },
+  { code: 'ar', name: 'Arabic', label: 'Arab', nllb: 'arb_Arab', m2m: 'ar' },
+  { code: 'th', name: 'Thai', label: 'Thailand', nllb: 'tha_Thai', m2m: 'th' },
+  { code: 'ms', name: 'Malay', label: 'Melayu', nllb: 'zsm_Latn', m2m: 'ms' },
+];
+
+export const DEFAULT_SOURCE_LANG = 'en';
+export const DEFAULT_TARGET_LANG = 'id';
+
+export const getLanguage = (code: string): Language =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+
+// Writing direction for exported documents
+export const isRightToLeft = (code: string): boolean =>
+  ['ar', 'fa', 'he', 'ur'].includes(code.split('-')[0]);
+
+// Multilingual models need explicit src_lang/tgt_lang; opus-mt models are
+// trained on a single pair and reject them.
+export const isMultilingualModel = (modelId: string): boolean => {
+  const id = modelId.toLowerCase();
+  return id.includes('nllb') || id.includes('m2m');
+};
+
+export const getPipelineLanguageOptions = (modelId: string, source: string, target: string): Record<string, string> => {
+  const id = modelId.toLowerCase();
+  if (id.includes('nllb')) {
+    return { src_lang: getLanguage(source).nllb, tgt_lang: getLanguage(target).nllb };
+  }
+  if (id.includes('m2m')) {
+    return { src_lang: getLanguage(source).m2m, tgt_lang: getLanguage(target).m2m };
+  }
+  return {};
+};
+
+// Suggested single-pair model on the Hugging Face hub, e.g. Xenova/opus-mt-de-en.
+export const suggestOpusModel = (source: string, target: string): string =>
+  `Xenova/opus-mt-${source}-${target}`;
@@ -0,0 +1,141 @@
+import { createWorker, Worker as TesseractWorker } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import { createAssetStore, isBundledAsset } from './assetCache';
+// Worker script and WASM core are bundled by Vite so nothing is pulled from a CDN.
+// The non-SIMD LSTM build runs everywhere; the WASM is inlined in the .wasm.js file.
+// @ts-ignore - Vite specific import
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+// @ts-ignore - Vite specific import
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+
+// Language data (.traineddata) is either bundled in public/ocr-data/ or uploaded
+// by the user into the Cache API; the Service Worker serves both from /ocr-data/.
+export const OCR_DATA_PATH = '/ocr-data';
+export const OCR_CACHE_NAME = 'ocr-data-cache-v1';
+
+const ocrData = createAssetStore({
+  cacheName: OCR_CACHE_NAME,
+  path: OCR_DATA_PATH,
+  accept: /\.traineddata$/,
+  contentType: 'application/octet-stream'
+});
+const codeOf = (fileName: string) => fileName.replace('.traineddata', '');
+
+// ISO 639-1 → Tesseract language codes
+const TESSERACT_CODES: Record<string, string> = {
+  en: 'eng', id: 'ind', de: 'deu', fr: 'fra', ja: 'jpn', es: 'spa', nl: 'nld',
+  it: 'ita', pt: 'por', ru: 'rus', zh: 'chi_sim', ko: 'kor', ar: 'ara', th: 'tha', ms: 'msa'
+};
+
+export const toTesseractCode = (lang: string) => TESSERACT_CODES[lang] || 'eng';
+
+// Bounding box in unscaled PDF viewport units (scale 1, origin top-left)
+export interface OcrWord {
+  text: string;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface OcrPageResult {
+  text: string;
+  words: OcrWord[];
+}
+
+export const saveOcrLanguageFiles = async (files: File[]): Promise<string[]> =>
+  (await ocrData.save(files)).map(codeOf);
+
+export const listUploadedOcrLanguages = async (): Promise<string[]> =>
+  (await ocrData.list()).map(codeOf);
+
+export const deleteOcrLanguage = (code: string) => ocrData.remove(`${code}.traineddata`);
+
+// Checks that the worker will actually get traineddata before spinning up a
+// WASM instance. Uploads reach the worker through the Service Worker.
+export const isOcrLanguageAvailable = async (code: string): Promise<boolean> => {
+  if (await ocrData.uploaded(`${code}.traineddata`)) return !!navigator.serviceWorker?.controller;
+  try {
+    return isBundledAsset(await fetch(`${OCR_DATA_PATH}/${code}.traineddata`, { method: 'HEAD' }));
+  } catch {
+    return false;
+  }
+};
+
+export interface OcrEngine {
+  recognizePage: (page: PDFPageProxy) => Promise<OcrPageResult>;
+  terminate: () => Promise<void>;
+}
+
+export const createOcrEngine = async (
+  lang: string,
+  onProgress?: (status: string, progress: number) => void
+): Promise<OcrEngine> => {
+  const worker: TesseractWorker = await createWorker(lang, 1 /* LSTM_ONLY */, {
+    workerPath: tesseractWorkerUrl,
+    corePath: tesseractCoreUrl,
+    langPath: window.location.origin + OCR_DATA_PATH,
+    gzip: false,
+    cacheMethod: 'none',
+    workerBlobURL: false,
+    logger: (m) => onProgress?.(m.status, m.progress)
+  });
+
+  const recognizePage = async (page: PDFPageProxy): Promise<OcrPageResult> => {
+    // Render through pdf.js at 2x so small print stays legible for the recogniser
+    const scale = 2;
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const context = canvas.getContext('2d', { alpha: false });
+    if (!context) throw new Error("Canvas 2D tidak tersedia untuk OCR.");
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    await page.render({ canvasContext: context, viewport, canvas }).promise;
+
+    const { data } = await worker.recognize(canvas, {}, { text: true, blocks: true });
+
+    const words: OcrWord[] = [];
+    for (const block of data.blocks || []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          for (const word of line.words) {
+            const text = word.text.trim();
+            if (!text) continue;
+            words.push({
+              text,
+              x0: word.bbox.x0 / scale,
+              y0: word.bbox.y0 / scale,
+              x1: word.bbox.x1 / scale,
+              y1: word.bbox.y1 / scale
+            });
+          }
+        }
+      }
+    }
+
+    canvas.width = 0;
+    canvas.height = 0;
+    return { text: words.map(w => w.text).join(' '), words };
+  };
+
+  return {
+    recognizePage,
+    terminate: async () => { await worker.terminate(); }
+  };
+};
+
+// Assigns OCR words to the sentences that were split from their joined text.
+export const alignWordsToSentences = (sentences: string[], words: OcrWord[]): OcrWord[][] => {
+  let cursor = 0;
+  return sentences.map(sentence => {
+    const tokens = sentence.split(/\s+/).filter(Boolean);
+    let start = cursor;
+    while (start < words.length && words[start].text !== tokens[0]) start++;
+    if (start >= words.length) return [];
+    const end = Math.min(words.length, start + tokens.length);
+    cursor = end;
+    return words.slice(start, end);
+  });
+};
@@ -0,0 +1,330 @@
+import { PDFDocument, PDFFont, PDFPage, PageSizes, rgb, RGB } from 'pdf-lib';
+import fontkit from '@pdf-lib/fontkit';
+import { getLanguage, isRightToLeft } from './languages';
+import { ExportPair, groupParagraphs, hasParagraphMarks, translationOf } from './bookExport';
+import { defaultFontFor, FALLBACK_FONT, loadFontFile } from './pdfFonts';
+import { getSegmenter } from './segmenter';
+
+// Print-ready parallel text, generated in the browser with pdf-lib.
+// One block per paragraph, labelled with its source page; the original and
+// the translation sit side by side or follow each other. Fonts are embedded
+// (subset) and shaped by fontkit, so joined Arabic and Thai render; words a
+// font has no glyphs for fall back to NotoSans. Layout is per word: a right-
+// to-left column places words from the right, each word shaped as a unit.
+
+export type PdfLayout = 'side-by-side' | 'alternating';
+export type PdfPageSize = 'A4' | 'A5' | 'Letter';
+
+export interface PdfExportOptions {
+  title: string;
+  author?: string;
+  sourceLang: string;
+  targetLang: string;
+  layout: PdfLayout;
+  pageSize: PdfPageSize;
+  marginMm: number;
+  fontSize: number;         // pt, body text
+  originalFont?: string;    // font file name; per-language Noto default otherwise
+  translationFont?: string;
+}
+
+interface LoadedFont {
+  pdf: PDFFont;
+  face: fontkit.Font;
+}
+
+interface Span {
+  text: string;
+  lang: string;
+  font: LoadedFont;
+  size: number;
+  color: RGB;
+}
+
+interface LineItem {
+  text: string;
+  font: LoadedFont;
+  size: number;
+  color: RGB;
+  x: number; // from the column's left edge
+  width: number;
+}
+
+type Line = LineItem[];
+
+const MM = 72 / 25.4;
+const LINE_HEIGHT = 1.45;
+const GUTTER = 18;
+
+const PAGE_SIZES: Record<PdfPageSize, [number, number]> = {
+  A4: PageSizes.A4,
+  A5: PageSizes.A5,
+  Letter: PageSizes.Letter
+};
+
+const COLORS = {
+  original: rgb(0.3, 0.3, 0.3),
+  translation: rgb(0.08, 0.08, 0.08),
+  label: rgb(0.55, 0.55, 0.55),
+  pending: rgb(0.78, 0.5, 0),
+  error: rgb(0.8, 0.15, 0.15)
+};
+
+// Scripts written without spaces between words; they break inside a token
+const NO_SPACE_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Break opportunities inside a whitespace-free token. Punctuation stays with
+// the word before it, so no line starts with a comma or a full stop.
+const breakToken = (token: string, lang: string): string[] => {
+  if (!NO_SPACE_SCRIPT.test(token)) return [token];
+  const Segmenter = getSegmenter();
+  if (!Segmenter) return Array.from(token);
+  const pieces: string[] = [];
+  for (const { segment, isWordLike } of new Segmenter(lang, { granularity: 'word' }).segment(token)) {
+    if (!isWordLike && pieces.length > 0) pieces[pieces.length - 1] += segment;
+    else pieces.push(segment);
+  }
+  return pieces;
+};
+
+const covers = (face: fontkit.Font, text: string) =>
+  Array.from(text).every(ch => /\s/.test(ch) || face.hasGlyphForCodePoint(ch.codePointAt(0)!));
+
+const createTypesetter = (fallback: LoadedFont) => {
+  const widths = new Map<PDFFont, Map<string, number>>();
+  const measure = (font: LoadedFont, text: string, size: number) => {
+    let cache = widths.get(font.pdf);
+    if (!cache) widths.set(font.pdf, cache = new Map());
+    let width = cache.get(text);
+    if (width === undefined) {
+      width = font.pdf.widthOfTextAtSize(text, 1);
+      cache.set(text, width);
+    }
+    return width * size;
+  };
+
+  const fontFor = (font: LoadedFont, text: string) =>
+    font === fallback || covers(font.face, text) || !covers(fallback.face, text) ? font : fallback;
+
+  // Characters of a piece wider than the column, in as few chunks as fit
+  const splitToWidth = (text: string, font: LoadedFont, size: number, width: number): string[] => {
+    const chunks: string[] = [];
+    let chunk = '';
+    for (const ch of Array.from(text)) {
+      if (chunk && measure(font, chunk + ch, size) > width) {
+        chunks.push(chunk);
+        chunk = '';
+      }
+      chunk += ch;
+    }
+    if (chunk) chunks.push(chunk);
+    return chunks;
+  };
+
+  // Greedy line breaking; spans follow each other with a space in between
+  const layoutLines = (spans: Span[], width: number, rtl: boolean): Line[] => {
+    const lines: Line[] = [];
+    let line: Line = [];
+    let x = 0;
+    const flush = () => {
+      lines.push(rtl ? line.map(item => ({ ...item, x: width - item.x - item.width })) : line);
+      line = [];
+      x = 0;
+    };
+    for (const span of spans) {
+      const tokens = span.text.split(/\s+/).filter(Boolean);
+      for (const token of tokens) {
+        const pieces = breakToken(token, span.lang);
+        pieces.forEach((piece, i) => {
+          const font = fontFor(span.font, piece);
+          const chunks = measure(font, piece, span.size) > width
+            ? splitToWidth(piece, font, span.size, width)
+            : [piece];
+          for (const chunk of chunks) {
+            const chunkWidth = measure(font, chunk, span.size);
+            if (line.length > 0 && x + chunkWidth > width) flush();
+            line.push({ text: chunk, font, size: span.size, color: span.color, x, width: chunkWidth });
+            x += chunkWidth;
+          }
+          // Space only where the text has one: between tokens, not between CJK/Thai words
+          if (i === pieces.length - 1) x += measure(font, ' ', span.size);
+        });
+      }
+    }
+    if (line.length > 0) flush();
+    return lines;
+  };
+
+  return { layoutLines };
+};
+
+const loadFonts = async (doc: PDFDocument, names: string[]) => {
+  const loaded = new Map<string, LoadedFont>();
+  const missing: string[] = [];
+  for (const name of names) {
+    if (loaded.has(name) || missing.includes(name)) continue;
+    const bytes = await loadFontFile(name);
+    if (!bytes) {
+      missing.push(name);
+      continue;
+    }
+    loaded.set(name, {
+      pdf: await doc.embedFont(bytes, { subset: true }),
+      face: fontkit.create(bytes) as fontkit.Font
+    });
+  }
+  if (missing.length > 0) {
+    throw new Error(`Font tidak ditemukan: ${missing.join(', ')}. Taruh di public/fonts/ atau unggah di dialog export.`);
+  }
+  return loaded;
+};
+
+const pageLabel = (pairs: ExportPair[]) => {
+  const first = pairs.find(p => p.page !== undefined)?.page;
+  if (first === undefined) return null;
+  const last = pairs.reduce((max, p) => Math.max(max, p.endPage ?? p.page ?? 0), first);
+  return last > first ? `hlm. ${first}–${last}` : `hlm. ${first}`;
+};
+
+export const buildPdf = async (pairs: ExportPair[], options: PdfExportOptions): Promise<Uint8Array> => {
+  const { sourceLang: source, targetLang: target, layout, fontSize } = options;
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+
+  const originalFontName = options.originalFont || defaultFontFor(source);
+  const translationFontName = options.translationFont || defaultFontFor(target);
+  const fonts = await loadFonts(doc, [FALLBACK_FONT, originalFontName, translationFontName]);
+  const fallback = fonts.get(FALLBACK_FONT)!;
+  const originalFont = fonts.get(originalFontName)!;
+  const translationFont = fonts.get(translationFontName)!;
+  const { layoutLines } = createTypesetter(fallback);
+
+  const [pageWidth, pageHeight] = PAGE_SIZES[options.pageSize];
+  const margin = Math.max(0, options.marginMm) * MM;
+  const contentWidth = pageWidth - margin * 2;
+  if (contentWidth < 100 || pageHeight - margin * 2 < 100) {
+    throw new Error("Margin terlalu besar untuk ukuran halaman ini.");
+  }
+  const columnWidth = layout === 'side-by-side' ? (contentWidth - GUTTER) / 2 : contentWidth;
+  const translationX = layout === 'side-by-side' ? margin + columnWidth + GUTTER : margin;
+  const originalSize = layout === 'alternating' ? fontSize * 0.92 : fontSize;
+  const labelSize = fontSize * 0.7;
+  const lineHeight = (size: number) => size * LINE_HEIGHT;
+
+  let page: PDFPage = doc.addPage([pageWidth, pageHeight]);
+  let y = pageHeight - margin;
+  const ensureSpace = (height: number) => {
+    if (y - height < margin) {
+      page = doc.addPage([pageWidth, pageHeight]);
+      y = pageHeight - margin;
+    }
+  };
+  const drawLine = (line: Line, left: number) => {
+    for (const item of line) {
+      page.drawText(item.text, { x: left + item.x, y: y - item.size * 1.1, size: item.size, font: item.font.pdf, color: item.color });
+    }
+  };
+  // Marks a translation line that contains untranslated or failed sentences
+  const drawFlag = (color: RGB, height: number) => {
+    const x = layout === 'side-by-side' ? translationX - GUTTER / 2 : margin - 6;
+    if (x < 2) return;
+    page.drawRectangle({ x: x - 1, y: y - height, width: 2, height, color });
+  };
+
+  // Title block
+  const titleLines = layoutLines(
+    [{ text: options.title, lang: target, font: translationFont, size: fontSize * 1.6, color: COLORS.translation }],
+    contentWidth, isRightToLeft(target)
+  );
+  for (const line of titleLines) {
+    ensureSpace(lineHeight(fontSize * 1.6));
+    drawLine(line, margin);
+    y -= lineHeight(fontSize * 1.6);
+  }
+  const subtitle = [
+    options.author,
+    `${getLanguage(source).label} → ${getLanguage(target).label}`
+  ].filter(Boolean).join(' · ');
+  for (const line of layoutLines([{ text: subtitle, lang: 'id', font: fallback, size: labelSize * 1.2, color: COLORS.label }], contentWidth, false)) {
+    drawLine(line, margin);
+    y -= lineHeight(labelSize * 1.2);
+  }
+  y -= lineHeight(fontSize);
+
+  const paragraphs = groupParagraphs(pairs, hasParagraphMarks(pairs));
+  for (const paragraph of paragraphs) {
+    const originalSpans: Span[] = paragraph.map(pair => ({
+      text: pair.original,
+      lang: pair.lang || source,
+      font: originalFont,
+      size: originalSize,
+      color: COLORS.original
+    }));
+    const translationSpans: Span[] = paragraph.map(pair => {
+      const translated = translationOf(pair);
+      if (translated !== null) {
+        return { text: translated, lang: target, font: translationFont, size: fontSize, color: COLORS.translation };
+      }
+      return pair.status === 'error'
+        ? { text: '[gagal diterjemahkan]', lang: 'id', font: fallback, size: fontSize * 0.85, color: COLORS.error }
+        : { text: '[belum diterjemahkan]', lang: 'id', font: fallback, size: fontSize * 0.85, color: COLORS.pending };
+    });
+    const flag = paragraph.some(p => p.status === 'error')
+      ? COLORS.error
+      : paragraph.some(p => translationOf(p) === null) ? COLORS.pending : null;
+
+    const originalLines = layoutLines(originalSpans, columnWidth, isRightToLeft(source));
+    const translationLines = layoutLines(translationSpans, columnWidth, isRightToLeft(target));
+
+    // The page label stays with the block's first line
+    const label = pageLabel(paragraph);
+    if (label) {
+      ensureSpace(lineHeight(labelSize) + lineHeight(fontSize));
+      page.drawText(label, { x: margin, y: y - labelSize * 1.1, size: labelSize, font: fallback.pdf, color: COLORS.label });
+      y -= lineHeight(labelSize);
+    }
+
+    if (layout === 'side-by-side') {
+      const rows = Math.max(originalLines.length, translationLines.length);
+      const rowHeight = lineHeight(fontSize);
+      for (let i = 0; i < rows; i++) {
+        ensureSpace(rowHeight);
+        if (originalLines[i]) drawLine(originalLines[i], margin);
+        if (translationLines[i]) {
+          drawLine(translationLines[i], translationX);
+          if (flag) drawFlag(flag, rowHeight);
+        }
+        y -= rowHeight;
+      }
+    } else {
+      for (const line of originalLines) {
+        ensureSpace(lineHeight(originalSize));
+        drawLine(line, margin);
+        y -= lineHeight(originalSize);
+      }
+      y -= fontSize * 0.3;
+      for (const line of translationLines) {
+        ensureSpace(lineHeight(fontSize));
+        drawLine(line, translationX);
+        if (flag) drawFlag(flag, lineHeight(fontSize));
+        y -= lineHeight(fontSize);
+      }
+    }
+    y -= lineHeight(fontSize) * 0.6;
+  }
+
+  // Page numbers
+  const pages = doc.getPages();
+  const footerSize = Math.max(6, labelSize);
+  pages.forEach((p, i) => {
+    const text = `${i + 1} / ${pages.length}`;
+    const width = fallback.pdf.widthOfTextAtSize(text, footerSize);
+    p.drawText(text, { x: (pageWidth - width) / 2, y: Math.max(8, margin / 2 - footerSize / 2), size: footerSize, font: fallback.pdf, color: COLORS.label });
+  });
+
+  doc.setTitle(options.title, { showInWindowTitleBar: true });
+  if (options.author) doc.setAuthor(options.author);
+  doc.setLanguage(target);
+  doc.setSubject(`${getLanguage(source).name} – ${getLanguage(target).name}`);
+  return doc.save();
+};
@@ -0,0 +1,47 @@
+import { createAssetStore, isBundledAsset } from './assetCache';
+
+// Fonts embedded in exported PDFs. Like OCR data, font files are either
+// bundled in public/fonts/ or uploaded by the user into the Cache API, and
+// never downloaded from a CDN. Uploaded files take precedence.
+
+export const FONT_PATH = '/fonts';
+export const FONT_CACHE_NAME = 'pdf-font-cache-v1';
+
+// Noto file used for each language when no font is chosen explicitly.
+// NotoSans covers Latin and Cyrillic and is also the fallback for words the
+// chosen font has no glyphs for (names, numbers, labels).
+export const FALLBACK_FONT = 'NotoSans-Regular.ttf';
+const DEFAULT_FONTS: Record<string, string> = {
+  ar: 'NotoNaskhArabic-Regular.ttf',
+  th: 'NotoSansThai-Regular.ttf',
+  ja: 'NotoSansJP-Regular.ttf',
+  zh: 'NotoSansSC-Regular.ttf',
+  ko: 'NotoSansKR-Regular.ttf'
+};
+
+export const defaultFontFor = (lang: string) => DEFAULT_FONTS[lang] || FALLBACK_FONT;
+
+const fonts = createAssetStore({
+  cacheName: FONT_CACHE_NAME,
+  path: FONT_PATH,
+  accept: /\.(ttf|otf)$/i,
+  contentType: 'font/sfnt'
+});
+
+export const saveFontFiles = (files: File[]) => fonts.save(files);
+
+export const listUploadedFonts = async (): Promise<string[]> => (await fonts.list()).sort();
+
+export const deleteFont = (name: string) => fonts.remove(name);
+
+// Uploaded file first, then the bundled one
+export const loadFontFile = async (name: string): Promise<Uint8Array | null> => {
+  const uploaded = await fonts.uploaded(name);
+  if (uploaded) return new Uint8Array(await uploaded.arrayBuffer());
+  try {
+    const resp = await fetch(`${FONT_PATH}/${encodeURIComponent(name)}`);
+    return isBundledAsset(resp) ? new Uint8Array(await resp.arrayBuffer()) : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { flowSentencesAcrossPages, layoutPages, LayoutPage, RawTextItem } from './pdfLayout';
+
+const WIDTH = 600;
+const HEIGHT = 800;
+
+// A text item at `x`, with its baseline `top` from the top of the page
+const item = (str: string, x: number, top: number, { size = 10, width = str.length * 5 } = {}): RawTextItem => ({
+  str,
+  transform: [size, 0, 0, size, x, HEIGHT - top],
+  width,
+  height: size
+});
+
+const page = (items: RawTextItem[]): LayoutPage => ({ items, width: WIDTH, height: HEIGHT });
+
+const split = (text: string) => text.split(/(?<=[.!?])\s+/).filter(Boolean);
+
+describe('layoutPages', () => {
+  it('reads the left column before the right one', () => {
+    const items: RawTextItem[] = [item('A Title Spanning The Whole Page Width', 50, 80, { width: 500 })];
+    // Content-stream order alternates between the columns
+    for (let k = 0; k < 6; k++) {
+      items.push(item(`left ${k}`, 50, 120 + k * 12, { width: 200 }));
+      items.push(item(`right ${k}`, 320, 120 + k * 12, { width: 200 }));
+    }
+    expect(layoutPages([page(items)])).toEqual([[
+      'A Title Spanning The Whole Page Width',
+      'left 0 left 1 left 2 left 3 left 4 left 5',
+      'right 0 right 1 right 2 right 3 right 4 right 5'
+    ]]);
+  });
+
+  it('keeps single-column text in line order', () => {
+    const items = [item('second line', 50, 112), item('first line', 50, 100)];
+    expect(layoutPages([page(items)])).toEqual([['first line second line']]);
+  });
+
+  it('joins a word hyphenated at the end of a line', () => {
+    const items = [item('The trans-', 50, 100), item('lation works.', 50, 112)];
+    expect(layoutPages([page(items)])).toEqual([['The translation works.']]);
+  });
+
+  it('keeps the hyphen before an uppercase continuation', () => {
+    const items = [item('An Anglo-', 50, 100), item('Saxon king.', 50, 112)];
+    expect(layoutPages([page(items)])).toEqual([['An Anglo- Saxon king.']]);
+  });
+
+  it('starts a paragraph after a blank line', () => {
+    const items = [item('One.', 50, 100), item('Two.', 50, 140)];
+    expect(layoutPages([page(items)])).toEqual([['One.', 'Two.']]);
+  });
+
+  it('drops running headers and page numbers', () => {
+    const pages = [1, 2, 3].map(n => page([
+      item('Chapter One', 250, 30),
+      item(`Body of page ${n}.`, 50, 200),
+      item(String(n), 300, 780)
+    ]));
+    expect(layoutPages(pages)).toEqual([['Body of page 1.'], ['Body of page 2.'], ['Body of page 3.']]);
+  });
+
+  it('puts footnotes after the body text', () => {
+    const items = [
+      item('Main text.', 50, 100),
+      item('Footnote text.', 50, 700, { size: 7 }),
+      item('More main text.', 50, 112)
+    ];
+    expect(layoutPages([page(items)])).toEqual([['Main text. More main text.', 'Footnote text.']]);
+  });
+});
+
+describe('flowSentencesAcrossPages', () => {
+  it('keeps a sentence that runs onto the next page whole', () => {
+    const sentences = flowSentencesAcrossPages([
+      { page: 1, paragraphs: ['First sentence. It continues on'] },
+      { page: 2, paragraphs: ['the next page. Then another.'] }
+    ], split);
+    expect(sentences).toEqual([
+      { text: 'First sentence.', page: 1, endPage: 1, paragraphStart: true },
+      { text: 'It continues on the next page.', page: 1, endPage: 2, paragraphStart: false },
+      { text: 'Then another.', page: 2, endPage: 2, paragraphStart: false }
+    ]);
+  });
+
+  it('joins a word hyphenated across the page break', () => {
+    const sentences = flowSentencesAcrossPages([
+      { page: 4, paragraphs: ['A long exam-'] },
+      { page: 5, paragraphs: ['ple follows.'] }
+    ], split);
+    expect(sentences).toEqual([{ text: 'A long example follows.', page: 4, endPage: 5, paragraphStart: true }]);
+  });
+
+  it('starts a new paragraph after a finished sentence', () => {
+    const sentences = flowSentencesAcrossPages([
+      { page: 1, paragraphs: ['Done here.'] },
+      { page: 2, paragraphs: ['New start.'] }
+    ], split);
+    expect(sentences.map(s => [s.text, s.page, s.paragraphStart])).toEqual([
+      ['Done here.', 1, true],
+      ['New start.', 2, true]
+    ]);
+  });
+
+  it('only lets the first paragraph of a page continue', () => {
+    const sentences = flowSentencesAcrossPages([
+      { page: 1, paragraphs: ['Open ended'] },
+      { page: 2, paragraphs: ['and closed.', 'A second paragraph'] },
+      { page: 3, paragraphs: ['ends here.', 'Third paragraph.'] }
+    ], split);
+    expect(sentences.map(s => [s.text, s.page, s.endPage])).toEqual([
+      ['Open ended and closed.', 1, 2],
+      ['A second paragraph ends here.', 2, 3],
+      ['Third paragraph.', 3, 3]
+    ]);
+  });
+});
@@ -0,0 +1,277 @@
+// Layout-aware reconstruction of PDF text.
+// pdf.js returns text items in content-stream order, which on multi-column
+// papers interleaves columns and mixes running headers into the prose.
+// Here items are grouped into lines by their transforms, lines are ordered
+// by column, repeated headers/footers are dropped, footnotes are kept apart
+// and words broken across lines are rejoined.
+
+export interface RawTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL?: boolean;
+}
+
+export interface LayoutPage {
+  items: RawTextItem[];
+  width: number;
+  height: number;
+}
+
+interface Line {
+  text: string;
+  x0: number;
+  x1: number;
+  top: number; // distance from the top of the page
+  fontSize: number;
+}
+
+// Running headers/footers live in these bands at the top and bottom of a page
+const MARGIN_BAND = 0.08;
+
+const fontSizeOf = (item: RawTextItem) =>
+  Math.hypot(item.transform[2], item.transform[3]) || item.height || 10;
+
+const groupLines = (page: LayoutPage): Line[] => {
+  const items = page.items
+    .filter(item => item.str.length > 0)
+    .map(item => ({
+      item,
+      x: item.transform[4],
+      top: page.height - item.transform[5],
+      fontSize: fontSizeOf(item)
+    }))
+    .sort((a, b) => a.top - b.top || a.x - b.x);
+
+  const lines: { parts: typeof items; top: number; fontSize: number }[] = [];
+  for (const entry of items) {
+    // Same baseline (within half a glyph) and no big horizontal jump into another column
+    const line = lines.find(l =>
+      !l.parts[l.parts.length - 1].item.hasEOL &&
+      Math.abs(l.top - entry.top) < Math.min(l.fontSize, entry.fontSize) * 0.5 &&
+      entry.x - (l.parts[l.parts.length - 1].x + l.parts[l.parts.length - 1].item.width) < page.width * 0.05
+    );
+    if (line) {
+      line.parts.push(entry);
+    } else {
+      lines.push({ parts: [entry], top: entry.top, fontSize: entry.fontSize });
+    }
+  }
+
+  return lines.map(line => {
+    const parts = line.parts.sort((a, b) => a.x - b.x);
+    let text = '';
+    let lastEnd = -Infinity;
+    for (const part of parts) {
+      const gap = part.x - lastEnd;
+      if (text && !text.endsWith(' ') && !part.item.str.startsWith(' ') && gap > part.fontSize * 0.15) {
+        text += ' ';
+      }
+      text += part.item.str;
+      lastEnd = part.x + part.item.width;
+    }
+    const sizes = parts.map(p => p.fontSize).sort((a, b) => a - b);
+    return {
+      text: text.replace(/\s+/g, ' ').trim(),
+      x0: parts[0].x,
+      x1: lastEnd,
+      top: line.top,
+      fontSize: sizes[Math.floor(sizes.length / 2)]
+    };
+  }).filter(l => l.text.length > 0);
+};
+
+const normalizeMarginText = (text: string) =>
+  text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+const isPageNumber = (text: string) =>
+  /^(page\s+|halaman\s+|seite\s+|p\.\s*)?(\d+|[ivxlcdm]+)(\s*(of|\/|dari)\s*\d+)?$/i.test(text.trim());
+
+const inMarginBand = (line: Line, height: number) =>
+  line.top < height * MARGIN_BAND || line.top > height * (1 - MARGIN_BAND);
+
+// Lines whose (digit-insensitive) text recurs in the margin band of many pages
+const findRepeatedMargins = (pages: Line[][], heights: number[]): Set<string> => {
+  const counts = new Map<string, number>();
+  pages.forEach((lines, i) => {
+    const seen = new Set<string>();
+    lines.filter(l => inMarginBand(l, heights[i])).forEach(l => seen.add(normalizeMarginText(l.text)));
+    seen.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  });
+  const threshold = Math.max(3, Math.ceil(pages.length * 0.3));
+  return new Set(Array.from(counts.entries()).filter(([, n]) => n >= threshold).map(([key]) => key));
+};
+
+// Splits lines into columns when the page has a clear vertical gutter, and
+// returns them in reading order: full-width lines act as separators between
+// bands, and within a band the left column is read before the right one.
+const orderByColumns = (lines: Line[], width: number): Line[] => {
+  const mid = width / 2;
+  const tolerance = width * 0.02;
+  const side = (l: Line) => l.x1 <= mid + tolerance ? 'left' : l.x0 >= mid - tolerance ? 'right' : 'full';
+
+  const leftCount = lines.filter(l => side(l) === 'left').length;
+  const rightCount = lines.filter(l => side(l) === 'right').length;
+  const isMultiColumn = leftCount >= 5 && rightCount >= 5 && (leftCount + rightCount) / lines.length > 0.6;
+  if (!isMultiColumn) return lines;
+
+  const ordered: Line[] = [];
+  let band: Line[] = [];
+  const flushBand = () => {
+    ordered.push(...band.filter(l => side(l) !== 'right'), ...band.filter(l => side(l) === 'right'));
+    band = [];
+  };
+  for (const line of lines) {
+    if (side(line) === 'full') {
+      flushBand();
+      ordered.push(line);
+    } else {
+      band.push(line);
+    }
+  }
+  flushBand();
+  return ordered;
+};
+
+// Joins "trans-" + "lation" but keeps real compounds such as "well-known"
+// when the next line starts with an uppercase letter or digit.
+const joinLines = (lines: string[]): string => {
+  let text = '';
+  for (const line of lines) {
+    if (!text) {
+      text = line;
+    } else if (/\p{L}[-\u00AD]$/u.test(text) && /^\p{Ll}/u.test(line)) {
+      text = text.slice(0, -1) + line;
+    } else {
+      text += ' ' + line;
+    }
+  }
+  return text;
+};
+
+const buildParagraphs = (lines: Line[]): string[] => {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let previous: Line | null = null;
+
+  for (const line of lines) {
+    const gap = previous ? line.top - previous.top : 0;
+    const startsNewBlock = previous && (
+      gap < 0 || // jumped back up: next column
+      gap > previous.fontSize * 1.8 || // blank line between paragraphs
+      Math.abs(line.fontSize - previous.fontSize) > previous.fontSize * 0.2 // heading / body switch
+    );
+    if (startsNewBlock && current.length > 0) {
+      paragraphs.push(joinLines(current));
+      current = [];
+    }
+    current.push(line.text);
+    previous = line;
+  }
+  if (current.length > 0) paragraphs.push(joinLines(current));
+  return paragraphs;
+};
+
+// Returns the paragraphs of every page in reading order.
+export const layoutPages = (pages: LayoutPage[]): string[][] => {
+  const pageLines = pages.map(groupLines);
+  const repeated = findRepeatedMargins(pageLines, pages.map(p => p.height));
+
+  return pageLines.map((lines, i) => {
+    const { width, height } = pages[i];
+    const body = lines.filter(l =>
+      !(inMarginBand(l, height) && (repeated.has(normalizeMarginText(l.text)) || isPageNumber(l.text)))
+    );
+    if (body.length === 0) return [];
+
+    // Footnotes: noticeably smaller print in the lower part of the page
+    const sizes = body.map(l => l.fontSize).sort((a, b) => a - b);
+    const bodySize = sizes[Math.floor(sizes.length / 2)];
+    const isFootnote = (l: Line) => l.fontSize < bodySize * 0.85 && l.top > height * 0.6;
+
+    const main = body.filter(l => !isFootnote(l));
+    const notes = body.filter(isFootnote);
+
+    return [
+      ...buildParagraphs(orderByColumns(main, width)),
+      ...buildParagraphs(notes)
+    ];
+  });
+};
+
+export interface PageParagraphs {
+  page: number;
+  paragraphs: string[];
+}
+
+export interface FlowSentence {
+  text: string;
+  page: number; // page the sentence starts on
+  endPage: number; // page the sentence ends on
+  paragraphStart: boolean; // first sentence of a paragraph
+}
+
+const isTerminated = (text: string) => /[.?!…。！？"”’)\]]$/.test(text.trim());
+
+// Segments consecutive pages as one text stream, so a sentence that runs
+// over a page break stays whole. Only the last paragraph of a page can
+// continue onto the next one, and only when it lacks closing punctuation.
+export const flowSentencesAcrossPages = (
+  pages: PageParagraphs[],
+  split: (text: string) => string[]
+): FlowSentence[] => {
+  const sentences: FlowSentence[] = [];
+  let flow = '';
+  let marks: { offset: number; page: number }[] = [];
+
+  const pageAt = (offset: number) => {
+    let page = marks[0].page;
+    for (const mark of marks) {
+      if (mark.offset <= offset) page = mark.page;
+    }
+    return page;
+  };
+
+  const flush = () => {
+    if (!flow) return;
+    let cursor = 0;
+    split(flow).forEach((sentence, i) => {
+      const found = flow.indexOf(sentence, cursor);
+      const start = found === -1 ? cursor : found;
+      sentences.push({
+        text: sentence,
+        page: pageAt(start),
+        endPage: pageAt(start + sentence.length - 1),
+        paragraphStart: i === 0
+      });
+      cursor = start + sentence.length;
+    });
+    flow = '';
+    marks = [];
+  };
+
+  for (const { page, paragraphs } of pages) {
+    paragraphs.forEach((paragraph, i) => {
+      const continues = i === 0 && flow.length > 0 && !isTerminated(flow);
+      if (!continues) flush();
+
+      if (!flow) {
+        marks.push({ offset: 0, page });
+        flow = paragraph;
+      } else if (/\p{L}-$/u.test(flow) && /^\p{Ll}/u.test(paragraph)) {
+        // Word hyphenated across the page break
+        flow = flow.slice(0, -1);
+        marks.push({ offset: flow.length, page });
+        flow += paragraph;
+      } else {
+        flow += ' ';
+        marks.push({ offset: flow.length, page });
+        flow += paragraph;
+      }
+    });
+  }
+  flush();
+
+  return sentences;
+};
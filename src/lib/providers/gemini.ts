@@ -0,0 +1,99 @@
+import { GoogleGenAI } from "@google/genai";
+import { createRateLimiter, isDailyQuota } from '../rateLimiter';
+import { buildBatchPrompt, translateWithValidation } from './prompt';
+import type { TranslationProvider } from './types';
+
+const DEFAULT_MODEL = 'gemini-1.5-flash-preview-0514';
+// Free-tier limits
+const DEFAULT_RPM = 15;
+const DEFAULT_TPM = 1_000_000;
+
+// Rough count for reserving window capacity: ~4 characters per token for the
+// prompt, and about as many tokens again for the translated output
+const estimateTokens = (prompt: string, texts: string[]) =>
+  Math.ceil(prompt.length / 4 + texts.join(' ').length / 4);
+
+export const createGeminiProvider = (): TranslationProvider => {
+  const scheduler = createRateLimiter({ requestsPerMinute: DEFAULT_RPM, tokensPerMinute: DEFAULT_TPM });
+
+  return {
+    id: 'gemini',
+    name: 'Gemini AI',
+    description: 'Sangat akurat, memerlukan koneksi internet. Menggunakan Gemini 1.5 Flash.',
+    capabilities: {
+      batching: true,
+      maxBatchSize: 12,
+      context: true,
+      streaming: false,
+      tokenAccounting: true
+    },
+    estimatedLatencyMs: 250,
+    settingsFields: [
+      { key: 'apiKey', label: 'Gemini API Key', type: 'password', placeholder: 'Masukkan Gemini API Key...', help: 'API Key disimpan secara lokal di browser Anda.' },
+      { key: 'model', label: 'Gemini Model', type: 'text', placeholder: DEFAULT_MODEL },
+      { key: 'rpm', label: 'Gemini Limit Request/Menit (RPM)', type: 'number', placeholder: String(DEFAULT_RPM) },
+      { key: 'tpm', label: 'Gemini Limit Token/Menit (TPM)', type: 'number', placeholder: String(DEFAULT_TPM), help: 'Permintaan ditunda otomatis sebelum limit tercapai.' }
+    ],
+    defaultSettings: () => ({
+      // Older versions stored the key on its own
+      apiKey: localStorage.getItem('gemini_api_key') || import.meta.env.VITE_GEMINI_API_KEY || '',
+      model: DEFAULT_MODEL,
+      rpm: String(DEFAULT_RPM),
+      tpm: String(DEFAULT_TPM)
+    }),
+
+    engineId: (settings) => `gemini:${settings.model || DEFAULT_MODEL}`,
+
+    prepare: async (settings) => {
+      if (!settings.apiKey) throw new Error("API Key tidak ditemukan untuk mode Online.");
+    },
+
+    translate: async ({ texts, source, target, context, glossary, references, signal }, settings) => {
+      const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+      scheduler.configure({
+        requestsPerMinute: parseInt(settings.rpm) || DEFAULT_RPM,
+        tokensPerMinute: parseInt(settings.tpm) || DEFAULT_TPM
+      });
+
+      const start = performance.now();
+      const { translations, usage } = await translateWithValidation(texts, async (batch) => {
+        const prompt = buildBatchPrompt(batch, source, target, context, glossary, references);
+        const response = await scheduler.schedule(estimateTokens(prompt, batch), async () => {
+          const result = await ai.models.generateContent({
+            model: settings.model || DEFAULT_MODEL,
+            contents: [{ parts: [{ text: prompt }] }],
+            config: {
+              responseMimeType: "application/json",
+              abortSignal: signal
+            }
+          });
+          return { result, tokens: result.usageMetadata?.totalTokenCount || 0 };
+        }, signal);
+
+        const { promptTokenCount = 0, candidatesTokenCount = 0, totalTokenCount = 0 } = response.usageMetadata || {};
+        return {
+          content: response.text || "",
+          usage: response.usageMetadata
+            ? { prompt: promptTokenCount, candidates: candidatesTokenCount, total: totalTokenCount }
+            : undefined
+        };
+      });
+      // Includes time spent queued and backing off, which is what the ETA needs
+      const latency = performance.now() - start;
+
+      return { translations, latency, usage };
+    },
+
+    describeError: (error) => {
+      if (isDailyQuota(error)) {
+        return "Quota harian Gemini habis. Coba lagi setelah reset pukul 00:00 UTC.";
+      }
+      if (error?.status === 429 || error?.message?.includes('429')) {
+        return "Batas penggunaan API tercapai. Silakan coba lagi nanti.";
+      }
+      return null;
+    },
+
+    scheduler
+  };
+};
@@ -0,0 +1,6 @@
+export * from './types';
+export * from './registry';
+export { createGeminiProvider } from './gemini';
+export { createOpenAICompatibleProvider } from './openaiCompatible';
+export { createTransformersProvider } from './transformers';
+export type { TransformersRuntime } from './transformers';
@@ -0,0 +1,92 @@
+import { buildBatchPrompt, translateWithValidation } from './prompt';
+import type { TranslationProvider } from './types';
+
+// Any server exposing the OpenAI `/v1/chat/completions` API:
+// Ollama, llama.cpp server, LM Studio, vLLM...
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+// Accepts ".../v1", ".../v1/" and the full ".../v1/chat/completions"
+const completionsUrl = (baseUrl: string) =>
+  `${(baseUrl || DEFAULT_BASE_URL).trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '')}/chat/completions`;
+
+export const createOpenAICompatibleProvider = (): TranslationProvider => ({
+  id: 'openai-compatible',
+  name: 'LLM Lokal',
+  description: 'Server OpenAI-compatible milik Anda (Ollama, llama.cpp, LM Studio).',
+  capabilities: {
+    batching: true,
+    maxBatchSize: 12,
+    context: true,
+    streaming: false,
+    tokenAccounting: true
+  },
+  estimatedLatencyMs: 800,
+  settingsFields: [
+    { key: 'baseUrl', label: 'LLM Lokal Base URL', type: 'url', placeholder: DEFAULT_BASE_URL },
+    { key: 'model', label: 'LLM Lokal Model', type: 'text', placeholder: 'llama3.1:8b' },
+    { key: 'apiKey', label: 'LLM Lokal API Key (opsional)', type: 'password', placeholder: 'Kosongkan jika tidak diperlukan', help: 'Server harus mengizinkan CORS dari origin aplikasi ini (mis. OLLAMA_ORIGINS=*).' }
+  ],
+  defaultSettings: () => ({ baseUrl: DEFAULT_BASE_URL, model: '', apiKey: '' }),
+
+  engineId: (settings) => `openai-compatible:${settings.model}`,
+
+  prepare: async (settings) => {
+    if (!settings.model) throw new Error("Nama model LLM lokal belum diisi di Settings.");
+  },
+
+  translate: async ({ texts, source, target, context, glossary, references, signal }, settings) => {
+    const url = completionsUrl(settings.baseUrl);
+    const start = performance.now();
+
+    const { translations, usage } = await translateWithValidation(texts, async (batch) => {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model: settings.model,
+            messages: [
+              { role: 'system', content: 'You are a professional translator. Answer with a JSON array only.' },
+              { role: 'user', content: buildBatchPrompt(batch, source, target, context, glossary, references) }
+            ],
+            temperature: 0.2,
+            stream: false
+          }),
+          signal
+        });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new Error(`Tidak dapat terhubung ke server LLM lokal (${url}). Pastikan server berjalan dan CORS diizinkan.`);
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw Object.assign(
+          new Error(`Server LLM lokal mengembalikan ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`),
+          { status: response.status }
+        );
+      }
+
+      const data = await response.json();
+      const usage = data.usage;
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        usage: usage
+          ? { prompt: usage.prompt_tokens || 0, candidates: usage.completion_tokens || 0, total: usage.total_tokens || 0 }
+          : undefined
+      };
+    });
+
+    return { translations, latency: performance.now() - start, usage };
+  },
+
+  describeError: (error) => {
+    if (error?.status === 429) return "Server LLM lokal sedang sibuk (429). Silakan coba lagi nanti.";
+    return error?.message || null;
+  }
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { alignBatchResponse, repairJson, translateWithValidation } from './prompt';
+
+const items = (...pairs: [number | string, string][]) =>
+  JSON.stringify(pairs.map(([id, translation]) => ({ id, translation })));
+
+describe('alignBatchResponse', () => {
+  const texts = ['The cat sat.', 'It was warm.', 'We left early.', 'Night fell.'];
+
+  it('matches translations by id, not by position', () => {
+    const content = items([3, 'Kami pergi awal.'], [1, 'Kucing itu duduk.'], [4, 'Malam tiba.'], [2, 'Cuacanya hangat.']);
+    expect(alignBatchResponse(content, texts)).toEqual([
+      'Kucing itu duduk.', 'Cuacanya hangat.', 'Kami pergi awal.', 'Malam tiba.'
+    ]);
+  });
+
+  it('accepts ids sent back as strings', () => {
+    expect(alignBatchResponse(items(['1', 'Satu.'], ['2', 'Dua.']), ['One.', 'Two.'])).toEqual(['Satu.', 'Dua.']);
+  });
+
+  it('drops a missing item and the neighbour it was merged into', () => {
+    const content = items(
+      [1, 'Kucing itu duduk. Cuacanya hangat sekali hari itu.'],
+      [3, 'Kami pergi awal.'],
+      [4, 'Malam tiba.']
+    );
+    expect(alignBatchResponse(content, texts)).toEqual([null, null, 'Kami pergi awal.', 'Malam tiba.']);
+  });
+
+  it('keeps a neighbour of a missing item when its length is typical', () => {
+    const content = items([1, 'Kucing itu duduk.'], [3, 'Kami pergi awal.'], [4, 'Malam tiba.']);
+    expect(alignBatchResponse(content, texts)).toEqual(['Kucing itu duduk.', null, 'Kami pergi awal.', 'Malam tiba.']);
+  });
+
+  it('rejects duplicated ids', () => {
+    const content = items([1, 'Kucing itu duduk.'], [2, 'Cuacanya hangat.'], [2, 'Kami pergi awal.'], [4, 'Malam tiba.']);
+    expect(alignBatchResponse(content, texts)).toEqual(['Kucing itu duduk.', null, null, 'Malam tiba.']);
+  });
+
+  it('rejects empty translations and unknown ids', () => {
+    expect(alignBatchResponse(items([1, '  '], [2, 'Dua.'], [7, 'Tujuh.']), ['One.', 'Two.'])).toEqual([null, 'Dua.']);
+  });
+
+  it('trusts a plain string array only when the count matches', () => {
+    expect(alignBatchResponse('["Satu.", "Dua."]', ['One.', 'Two.'])).toEqual(['Satu.', 'Dua.']);
+    expect(alignBatchResponse('["Satu dan dua."]', ['One.', 'Two.'])).toEqual([null, null]);
+  });
+
+  it('reads fenced JSON and arrays wrapped in prose or an object', () => {
+    const expected = ['Satu.', 'Dua.'];
+    const json = items([1, 'Satu.'], [2, 'Dua.']);
+    expect(alignBatchResponse(`\`\`\`json\n${json}\n\`\`\``, ['One.', 'Two.'])).toEqual(expected);
+    expect(alignBatchResponse(`Here you go:\n${json}\nHope this helps!`, ['One.', 'Two.'])).toEqual(expected);
+    expect(alignBatchResponse(`{"translations": ${json}}`, ['One.', 'Two.'])).toEqual(expected);
+  });
+
+  it('keeps the complete items of a truncated array', () => {
+    const content = '[{"id": 1, "translation": "Satu."}, {"id": 2, "translation": "Dua."}, {"id": 3, "transl';
+    expect(alignBatchResponse(content, ['One.', 'Two.', 'Three.'])).toEqual(['Satu.', 'Dua.', null]);
+  });
+
+  it('returns nothing for a response that is not JSON', () => {
+    expect(alignBatchResponse('Sorry, I cannot help with that.', ['One.', 'Two.'])).toEqual([null, null]);
+  });
+});
+
+describe('repairJson', () => {
+  it('removes trailing commas and typographic quotes around keys', () => {
+    expect(JSON.parse(repairJson('[{“id”: 1, “translation”: "Satu.",},]'))).toEqual([{ id: 1, translation: 'Satu.' }]);
+  });
+
+  it('closes an array cut off before its first complete item', () => {
+    expect(JSON.parse(repairJson('[{"id": 1, "tra'))).toEqual([]);
+  });
+});
+
+describe('translateWithValidation', () => {
+  it('re-requests only the unverified sentences, one at a time', async () => {
+    const texts = ['One.', 'Two.', 'Three.'];
+    const request = vi.fn(async (batch: string[]) => {
+      if (batch.length > 1) return { content: items([1, 'Satu.'], [3, 'Tiga.']), usage: { prompt: 10, candidates: 5, total: 15 } };
+      return { content: items([1, 'Dua.']), usage: { prompt: 2, candidates: 1, total: 3 } };
+    });
+
+    const { translations, usage } = await translateWithValidation(texts, request);
+    expect(translations).toEqual(['Satu.', 'Dua.', 'Tiga.']);
+    expect(request).toHaveBeenCalledTimes(2);
+    expect(request).toHaveBeenLastCalledWith(['Two.']);
+    expect(usage).toEqual({ prompt: 12, candidates: 6, total: 18 });
+  });
+
+  it('leaves a sentence unverified when its retry fails too', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = vi.fn(async (batch: string[]) => ({
+      content: batch.length > 1 ? items([1, 'Satu.']) : 'not json'
+    }));
+
+    const { translations } = await translateWithValidation(['One.', 'Two.'], request);
+    expect(translations).toEqual(['Satu.', null]);
+    expect(request).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('does not retry a single sentence', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = vi.fn(async () => ({ content: '[]' }));
+
+    expect((await translateWithValidation(['One.'], request)).translations).toEqual([null]);
+    expect(request).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,166 @@
+import { GlossaryEntry, requiredOutput } from '../glossary';
+import { getLanguage } from '../languages';
+import type { TokenUsage, TranslationContext, TranslationRequest } from './types';
+
+// Batching contract shared by the LLM providers. Sentences go out as
+// ID-tagged items and must come back with the same ids, so a merged, dropped
+// or reordered sentence can't shift translations onto its neighbours.
+// Items that can't be verified are re-requested one at a time.
+
+interface BatchItem {
+  id: number;
+  translation: string;
+}
+
+// Context is reference material only; the model must not translate or echo it
+const contextSection = (context?: TranslationContext) => {
+  if (!context || (context.before.length === 0 && context.after.length === 0)) return '';
+  let section = `
+          Use the following only as context for pronouns, tense and terminology. Do NOT translate it and do NOT include it in the output.`;
+  if (context.before.length > 0) {
+    section += `
+          Preceding text with its existing translation: ${JSON.stringify(context.before.map(c => ({ text: c.original, translation: c.translated })))}`;
+  }
+  if (context.after.length > 0) {
+    section += `
+          Following text: ${JSON.stringify(context.after)}`;
+  }
+  return section;
+};
+
+// Fuzzy memory hits differ from the sentence in some detail (a negation, a
+// number, a name), so they only guide wording and must not be copied
+const referenceSection = (references?: TranslationRequest['references']) => {
+  if (!references || references.length === 0) return '';
+  return `
+          Earlier translations of similar (not identical) sentences, for consistent wording only. The items may differ from them in meaning, names or numbers; translate what the items actually say: ${JSON.stringify(references.map(r => ({ text: r.original, translation: r.translated })))}`;
+};
+
+const glossarySection = (glossary?: GlossaryEntry[]) => {
+  if (!glossary || glossary.length === 0) return '';
+  const rules = glossary.map(e => e.keep
+    ? `"${e.term}" → keep exactly as "${e.term}"`
+    : `"${e.term}" → "${requiredOutput(e)}"`);
+  return `
+          Glossary (mandatory): always render these terms exactly as given: ${rules.join('; ')}.`;
+};
+
+export const buildBatchPrompt = (
+  texts: string[],
+  source: string,
+  target: string,
+  context?: TranslationContext,
+  glossary?: GlossaryEntry[],
+  references?: TranslationRequest['references']
+) =>
+  `Translate the "text" of each item from ${getLanguage(source).name} to ${getLanguage(target).name}. Keep it natural.
+          Translate every item separately: never merge, split, skip or reorder items.${glossarySection(glossary)}${contextSection(context)}${referenceSection(references)}
+          Return ONLY a JSON array of objects shaped {"id": number, "translation": string}, one per input item, with the same ids.
+          Items: ${JSON.stringify(texts.map((text, i) => ({ id: i + 1, text })))}`;
+
+// Repairs the usual LLM damage before parsing: code fences, prose around the
+// array, an array cut off by the token limit (its complete items are kept),
+// trailing commas and typographic quotes used as JSON delimiters
+export const repairJson = (text: string): string => {
+  let json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const start = json.indexOf('[');
+  const end = json.lastIndexOf(']');
+  if (start !== -1 && end > start) json = json.slice(start, end + 1);
+  else if (start !== -1) json = `${json.slice(start, Math.max(start + 1, json.lastIndexOf('}') + 1))}]`;
+  return json
+    .replace(/,\s*([\]}])/g, '$1')
+    .replace(/([{,]\s*)[“”]([^“”]*?)[“”](\s*:)/g, '$1"$2"$3');
+};
+
+const parseLoose = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return JSON.parse(repairJson(text));
+  }
+};
+
+const toItems = (parsed: unknown, expected: number): BatchItem[] => {
+  if (!Array.isArray(parsed)) {
+    // Some models wrap the array: {"translations": [...]}
+    const inner = parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+    if (!inner) throw new Error("Respons model bukan JSON array.");
+    parsed = inner;
+  }
+  const list = parsed as unknown[];
+
+  // Plain string array: only trustworthy when the count matches
+  if (list.every(v => typeof v === 'string')) {
+    return list.length === expected
+      ? (list as string[]).map((translation, i) => ({ id: i + 1, translation }))
+      : [];
+  }
+
+  return list.flatMap((v: any) => {
+    const id = typeof v?.id === 'string' ? parseInt(v.id) : v?.id;
+    const translation = v?.translation ?? v?.text;
+    return Number.isInteger(id) && typeof translation === 'string' ? [{ id, translation }] : [];
+  });
+};
+
+// Aligns a raw model response to the batch. The result has one slot per
+// input sentence; null marks a translation that isn't verifiably its own.
+export const alignBatchResponse = (content: string, texts: string[]): (string | null)[] => {
+  let items: BatchItem[];
+  try {
+    items = toItems(parseLoose(content), texts.length);
+  } catch {
+    return texts.map(() => null);
+  }
+
+  const counts = new Map<number, number>();
+  items.forEach(item => counts.set(item.id, (counts.get(item.id) || 0) + 1));
+
+  const result = texts.map((_, i) => {
+    const id = i + 1;
+    if (counts.get(id) !== 1) return null; // missing or duplicated
+    const translation = items.find(item => item.id === id)!.translation.trim();
+    return translation ? translation : null;
+  });
+
+  // A missing item usually means the model merged it into the previous one:
+  // distrust a neighbour whose length ratio is far above the batch's typical ratio
+  const ratios = result
+    .map((t, i) => (t ? t.length / Math.max(1, texts[i].length) : null))
+    .filter((r): r is number => r !== null)
+    .sort((a, b) => a - b);
+  const typical = ratios.length ? ratios[Math.floor(ratios.length / 2)] : 1;
+  const suspicious = result.map((t, i) =>
+    t !== null &&
+    result[i + 1] === null &&
+    t.length / Math.max(1, texts[i].length) > typical * 1.8
+  );
+
+  return result.map((t, i) => (suspicious[i] ? null : t));
+};
+
+const addUsage = (a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined =>
+  !a ? b : !b ? a : { prompt: a.prompt + b.prompt, candidates: a.candidates + b.candidates, total: a.total + b.total };
+
+// Sends the batch, then re-requests every unverified sentence on its own
+export const translateWithValidation = async (
+  texts: string[],
+  request: (batch: string[]) => Promise<{ content: string; usage?: TokenUsage }>
+): Promise<{ translations: (string | null)[]; usage?: TokenUsage }> => {
+  const first = await request(texts);
+  const translations = alignBatchResponse(first.content, texts);
+  let usage = first.usage;
+
+  if (texts.length > 1) {
+    for (let i = 0; i < texts.length; i++) {
+      if (translations[i] !== null) continue;
+      const retry = await request([texts[i]]);
+      usage = addUsage(usage, retry.usage);
+      translations[i] = alignBatchResponse(retry.content, [texts[i]])[0];
+    }
+  }
+
+  const missing = translations.filter(t => t === null).length;
+  if (missing > 0) console.warn(`[Validation] ${missing}/${texts.length} terjemahan tidak dapat diverifikasi.`);
+  return { translations, usage };
+};
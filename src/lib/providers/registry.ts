@@ -0,0 +1,34 @@
+import type { ProviderSettings, TranslationProvider } from './types';
+
+// Registered translation engines, in the order they were registered.
+
+const providers = new Map<string, TranslationProvider>();
+
+const SETTINGS_KEY = 'provider_settings';
+
+export const registerProvider = (provider: TranslationProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): TranslationProvider | undefined => providers.get(id);
+
+export const listProviders = (): TranslationProvider[] => Array.from(providers.values());
+
+// Saved settings for every registered provider, filled in with defaults
+export const loadProviderSettings = (): Record<string, ProviderSettings> => {
+  let saved: Record<string, ProviderSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch {
+    // Corrupt entry: fall back to defaults
+  }
+  const result: Record<string, ProviderSettings> = {};
+  providers.forEach((provider, id) => {
+    result[id] = { ...provider.defaultSettings(), ...(saved[id] || {}) };
+  });
+  return result;
+};
+
+export const saveProviderSettings = (settings: Record<string, ProviderSettings>) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
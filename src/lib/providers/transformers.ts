@@ -0,0 +1,86 @@
+import { maskTerms, restoreTerms } from '../glossary';
+import { getPipelineLanguageOptions } from '../languages';
+import { TranslationCancelledError, TranslatorWorker } from '../translatorClient';
+import type { TranslationProvider } from './types';
+
+// Model loading stays in App (it drives the download progress UI); the
+// provider reaches it through this runtime.
+export interface TransformersRuntime {
+  ensureLoaded: () => Promise<boolean>;
+  getTranslator: () => TranslatorWorker | null;
+  // Model id (or "<modelType> <tokenizer>" for custom uploads), used to pick language options
+  getModelHint: () => string;
+  // Hub id, or a fingerprint of the uploaded files; null when no model is chosen
+  getModelId: () => string | null;
+}
+
+export const createTransformersProvider = (getRuntime: () => TransformersRuntime | null): TranslationProvider => ({
+  id: 'transformers',
+  name: 'Transformers.js',
+  description: 'Model offline (MarianMT, NLLB, M2M) yang berjalan di browser.',
+  capabilities: {
+    batching: true,
+    maxBatchSize: 12,
+    context: false,
+    streaming: false,
+    tokenAccounting: false
+  },
+  estimatedLatencyMs: 500,
+  settingsFields: [
+    { key: 'maxNewTokens', label: 'Offline Max Token per Kalimat', type: 'number', placeholder: '256' }
+  ],
+  defaultSettings: () => ({ maxNewTokens: '256' }),
+
+  engineId: () => {
+    const modelId = getRuntime()?.getModelId();
+    return modelId ? `transformers:${modelId}` : null;
+  },
+
+  prepare: async () => {
+    const runtime = getRuntime();
+    if (!runtime?.getTranslator()) {
+      // loadOfflineModel reports the detailed reason itself
+      const success = await runtime?.ensureLoaded();
+      if (!success) throw new Error("Model offline gagal dimuat.");
+    }
+  },
+
+  translate: async ({ texts, source, target, glossary, signal }, settings) => {
+    const runtime = getRuntime();
+    const translator = runtime?.getTranslator();
+    if (!runtime || !translator) throw new Error("Translator model not ready");
+    if (signal?.aborted) throw new TranslationCancelledError();
+
+    // Glossary terms become placeholders the model copies through, then are restored
+    const masked = texts.map(text => maskTerms(text, glossary || []));
+
+    // The worker checks its cancellation flag between pipeline chunks
+    const onAbort = () => translator.cancel();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    let result: Awaited<ReturnType<TranslatorWorker['translate']>>;
+    try {
+      result = await translator.translate(masked.map(m => m.text), {
+        max_new_tokens: parseInt(settings.maxNewTokens) || 256,
+        ...getPipelineLanguageOptions(runtime.getModelHint(), source, target),
+      });
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    const { translations: raw, latency } = result;
+
+    const translations = raw.map((t, i) => restoreTerms(t, masked[i]?.slots || []));
+
+    if (translations.length === 0) {
+      console.warn("[Transformers.js] Hasil terjemahan kosong atau tidak valid.");
+    }
+    return { translations, latency };
+  },
+
+  describeError: (error) => {
+    const msg: string = error?.message || "Gagal menerjemahkan (Offline).";
+    if (msg.includes("attention_mask")) {
+      return "Error Model: Input 'attention_mask' hilang. Pastikan Anda sudah mengunggah file DECODER (.onnx) yang lengkap.";
+    }
+    return msg;
+  }
+});
@@ -0,0 +1,81 @@
+// Shared contract for translation engines (Gemini, Transformers.js, ...).
+// The batching loop in App only talks to this interface, so status, ETA,
+// performance metrics and token accounting work the same for every engine.
+
+import type { GlossaryEntry } from '../glossary';
+import type { RateLimiter } from '../rateLimiter';
+
+export interface ProviderCapabilities {
+  batching: boolean;          // accepts several sentences per call
+  maxBatchSize: number;       // 1 when batching is false
+  context: boolean;           // can use surrounding sentences as context
+  streaming: boolean;         // can emit partial results while translating
+  tokenAccounting: boolean;   // reports token usage
+}
+
+// Per-provider settings are plain strings as typed in the Settings form;
+// providers parse numbers themselves.
+export type ProviderSettings = Record<string, string>;
+
+export interface ProviderSettingField {
+  key: string;
+  label: string;
+  type: 'text' | 'password' | 'url' | 'number';
+  placeholder?: string;
+  help?: string;
+}
+
+export interface TranslationContext {
+  before: { original: string; translated: string }[];
+  after: string[];
+}
+
+export interface TranslationRequest {
+  texts: string[];
+  source: string; // ISO 639-1
+  target: string;
+  // Read-only surroundings for providers with the `context` capability:
+  // already translated pairs before the batch and source sentences after it
+  context?: TranslationContext;
+  // Book glossary entries that occur in `texts`
+  glossary?: GlossaryEntry[];
+  // Similar sentences from the translation memory, for providers with the
+  // `context` capability: consistency hints, never the answer
+  references?: { original: string; translated: string }[];
+  // Aborted when the job is paused or cancelled; providers reject with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  prompt: number;
+  candidates: number;
+  total: number;
+}
+
+export interface TranslationResult {
+  // One slot per input text; null when the provider couldn't verify a translation
+  translations: (string | null)[];
+  latency: number; // ms for the whole call
+  usage?: TokenUsage;
+}
+
+export interface TranslationProvider {
+  id: string;
+  name: string;
+  description: string;
+  capabilities: ProviderCapabilities;
+  // Used for the ETA before any batch has been measured
+  estimatedLatencyMs: number;
+  settingsFields: ProviderSettingField[];
+  defaultSettings: () => ProviderSettings;
+  // Identifies engine + model, e.g. for translation-memory keys; null while
+  // the model isn't known, which leaves the translation memory off
+  engineId: (settings: ProviderSettings) => string | null;
+  // Loads models / checks credentials; throws an Error with a user-facing message
+  prepare: (settings: ProviderSettings) => Promise<void>;
+  translate: (request: TranslationRequest, settings: ProviderSettings) => Promise<TranslationResult>;
+  // Maps engine-specific failures to a user-facing message
+  describeError?: (error: any) => string | null;
+  // Present for providers whose requests are throttled client-side
+  scheduler?: RateLimiter;
+}
@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, isDailyQuota, isRetryableError, retryAfterMs } from './rateLimiter';
+
+const httpError = (status: number, message = `HTTP ${status}`, headers?: Record<string, string>) =>
+  Object.assign(new Error(message), { status, headers });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('createRateLimiter', () => {
+  // Resolves right away, recording when each call started
+  const recorder = (tokens = 1) => {
+    const calls: number[] = [];
+    const run = async () => {
+      calls.push(Date.now());
+      return { result: calls.length, tokens };
+    };
+    return { calls, run };
+  };
+
+  it('waits for the request window to slide before exceeding the per-minute limit', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 2, tokensPerMinute: 1_000_000 });
+    const { calls, run } = recorder();
+    const done = Promise.all([limiter.schedule(1, run), limiter.schedule(1, run), limiter.schedule(1, run)]);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(calls).toEqual([0, 0]);
+    expect(limiter.getState().waitingUntil).toBe(60_000);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await done).toEqual([1, 2, 3]);
+    expect(calls).toEqual([0, 0, 60_000]);
+  });
+
+  it('waits until enough tokens have left the window', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 100 });
+    const first = recorder(80);
+    await limiter.schedule(80, first.run);
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    const second = recorder(50);
+    const done = limiter.schedule(50, second.run);
+    await vi.advanceTimersByTimeAsync(49_999);
+    expect(second.calls).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await done;
+    expect(second.calls).toEqual([60_000]);
+  });
+
+  it('grows the backoff exponentially up to the cap', async () => {
+    // No jitter: every delay is the full backoff
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const limiter = createRateLimiter({
+      requestsPerMinute: 100, tokensPerMinute: 1_000_000, baseDelayMs: 1000, maxDelayMs: 4000
+    });
+    const calls: number[] = [];
+    const done = limiter.schedule(1, async () => {
+      calls.push(Date.now());
+      if (calls.length < 5) throw httpError(503);
+      return { result: 'ok', tokens: 1 };
+    });
+
+    await vi.advanceTimersByTimeAsync(20_000);
+    expect(await done).toBe('ok');
+    expect(calls).toEqual([0, 1000, 3000, 7000, 11_000]);
+  });
+
+  it('keeps at least half the backoff with jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 1_000_000, baseDelayMs: 1000 });
+    const calls: number[] = [];
+    const done = limiter.schedule(1, async () => {
+      calls.push(Date.now());
+      if (calls.length < 3) throw httpError(429);
+      return { result: 'ok', tokens: 1 };
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await done;
+    expect(calls).toEqual([0, 500, 1500]);
+  });
+
+  it('gives up after the last retry', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 1_000_000, maxRetries: 2, baseDelayMs: 1000 });
+    const run = vi.fn(async () => { throw httpError(500); });
+    const done = expect(limiter.schedule(1, run)).rejects.toMatchObject({ status: 500 });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await done;
+    expect(run).toHaveBeenCalledTimes(3);
+    expect(limiter.getState().retry).toBeNull();
+  });
+
+  it('waits as long as the Retry-After header asks', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 1_000_000, baseDelayMs: 1000 });
+    const calls: number[] = [];
+    const done = limiter.schedule(1, async () => {
+      calls.push(Date.now());
+      if (calls.length === 1) throw httpError(429, 'Too Many Requests', { 'retry-after': '10' });
+      return { result: 'ok', tokens: 1 };
+    });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    await done;
+    expect(calls).toEqual([0, 10_000]);
+  });
+
+  it('does not retry a daily quota error', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 1_000_000 });
+    const run = vi.fn(async () => {
+      throw httpError(429, 'Quota exceeded for metric generate_content_free_tier_requests, limit: GenerateRequestsPerDayPerProjectPerModel');
+    });
+
+    await expect(limiter.schedule(1, run)).rejects.toMatchObject({ status: 429 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 100, tokensPerMinute: 1_000_000 });
+    const run = vi.fn(async () => { throw httpError(400); });
+
+    await expect(limiter.schedule(1, run)).rejects.toMatchObject({ status: 400 });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting when the signal is aborted', async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1, tokensPerMinute: 1_000_000 });
+    const { calls, run } = recorder();
+    await limiter.schedule(1, run);
+
+    const controller = new AbortController();
+    const done = expect(limiter.schedule(1, run, controller.signal)).rejects.toBe('paused');
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort('paused');
+    await done;
+    expect(calls).toEqual([0]);
+    expect(limiter.getState().waitingUntil).toBeNull();
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('reads Retry-After in seconds from a Headers object or a plain object', () => {
+    expect(retryAfterMs({ headers: new Headers({ 'Retry-After': '7' }) })).toBe(7000);
+    expect(retryAfterMs({ headers: { 'retry-after': '1.5' } })).toBe(1500);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    vi.setSystemTime(Date.parse('2024-05-01T12:00:00Z'));
+    expect(retryAfterMs({ headers: { 'retry-after': 'Wed, 01 May 2024 12:00:30 GMT' } })).toBe(30_000);
+    expect(retryAfterMs({ headers: { 'retry-after': 'Wed, 01 May 2024 11:59:00 GMT' } })).toBe(0);
+  });
+
+  it('reads the hint from the error message', () => {
+    expect(retryAfterMs({ message: '{"@type": "RetryInfo", "retryDelay": "37s"}' })).toBe(37_000);
+    expect(retryAfterMs({ message: 'Quota exceeded. Please retry in 12.5s.' })).toBe(12_500);
+  });
+
+  it('returns null without a hint', () => {
+    expect(retryAfterMs(httpError(429))).toBeNull();
+    expect(retryAfterMs(undefined)).toBeNull();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits and server errors, but not daily quotas', () => {
+    expect(isRetryableError(httpError(429, 'Resource exhausted: requests per minute'))).toBe(true);
+    expect(isRetryableError(httpError(503))).toBe(true);
+    expect(isRetryableError(new Error('got status 502 from upstream'))).toBe(true);
+    expect(isRetryableError(httpError(429, 'Quota exceeded: requests per day'))).toBe(false);
+    expect(isRetryableError(httpError(404))).toBe(false);
+    expect(isDailyQuota(httpError(429, 'GenerateRequestsPerDayPerProjectPerModel'))).toBe(true);
+  });
+});
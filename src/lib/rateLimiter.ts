@@ -0,0 +1,216 @@
+// Request scheduler for rate-limited APIs.
+// Requests run one after another; before each one the scheduler checks a
+// sliding one-minute window of requests and tokens and waits until the next
+// call fits. 429 and 5xx failures are retried with exponential backoff and
+// jitter, honouring the server's retry hint when it gives one. An aborted
+// signal ends the wait or the queued turn of its request.
+
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface RateLimiterState {
+  queued: number;            // waiting for their turn
+  inFlight: boolean;
+  requestsInWindow: number;
+  tokensInWindow: number;
+  limits: RateLimits;
+  waitingUntil: number | null; // epoch ms while throttling or backing off
+  retry: { attempt: number; maxRetries: number; reason: string } | null;
+}
+
+export interface RateLimiter {
+  // `run` returns the task's result plus the tokens it actually used
+  schedule: <T>(estimatedTokens: number, run: () => Promise<{ result: T; tokens: number }>, signal?: AbortSignal) => Promise<T>;
+  configure: (limits: Partial<RateLimits>) => void;
+  getState: () => RateLimiterState;
+  subscribe: (listener: (state: RateLimiterState) => void) => () => void;
+}
+
+interface RateLimiterOptions extends RateLimits {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const WINDOW_MS = 60_000;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const statusOf = (error: any): number | undefined => {
+  if (typeof error?.status === 'number') return error.status;
+  const match = /\b(429|5\d\d)\b/.exec(error?.message || '');
+  return match ? parseInt(match[1]) : undefined;
+};
+
+// Daily quotas won't recover by waiting a few seconds
+export const isDailyQuota = (error: any) => /per\s*day|PerDay/i.test(error?.message || '');
+
+export const isRetryableError = (error: any) => {
+  const status = statusOf(error);
+  if (status === 429) return !isDailyQuota(error);
+  return status !== undefined && status >= 500;
+};
+
+// Retry hint in ms: a Retry-After header, Gemini's RetryInfo ("retryDelay": "37s")
+// or the "Please retry in 12.3s" sentence in the error message
+export const retryAfterMs = (error: any): number | null => {
+  const header = error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+  if (header) {
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+  const message: string = error?.message || '';
+  const match = /"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/.exec(message) || /retry in (\d+(?:\.\d+)?)\s*s/i.exec(message);
+  return match ? parseFloat(match[1]) * 1000 : null;
+};
+
+export const createRateLimiter = ({
+  requestsPerMinute,
+  tokensPerMinute,
+  maxRetries = 5,
+  baseDelayMs = 2000,
+  maxDelayMs = 60_000
+}: RateLimiterOptions): RateLimiter => {
+  const limits: RateLimits = { requestsPerMinute, tokensPerMinute };
+  const window: { time: number; tokens: number }[] = [];
+  const listeners = new Set<(state: RateLimiterState) => void>();
+  let queued = 0;
+  let inFlight = false;
+  let waitingUntil: number | null = null;
+  let retry: RateLimiterState['retry'] = null;
+  let tail: Promise<unknown> = Promise.resolve();
+
+  const prune = () => {
+    const cutoff = Date.now() - WINDOW_MS;
+    while (window.length && window[0].time <= cutoff) window.shift();
+  };
+
+  const getState = (): RateLimiterState => {
+    prune();
+    return {
+      queued,
+      inFlight,
+      requestsInWindow: window.length,
+      tokensInWindow: window.reduce((sum, e) => sum + e.tokens, 0),
+      limits: { ...limits },
+      waitingUntil,
+      retry
+    };
+  };
+
+  const notify = () => {
+    const state = getState();
+    listeners.forEach(listener => listener(state));
+  };
+
+  // How long until a request of `tokens` fits into the window
+  const delayFor = (tokens: number) => {
+    prune();
+    const now = Date.now();
+    let delay = 0;
+    if (window.length >= limits.requestsPerMinute) {
+      delay = window[window.length - limits.requestsPerMinute].time + WINDOW_MS - now;
+    }
+    let used = window.reduce((sum, e) => sum + e.tokens, 0);
+    // A request larger than the whole budget only waits for an empty window
+    const budget = Math.max(0, limits.tokensPerMinute - Math.min(tokens, limits.tokensPerMinute));
+    for (const entry of window) {
+      if (used <= budget) break;
+      used -= entry.tokens;
+      delay = Math.max(delay, entry.time + WINDOW_MS - now);
+    }
+    return Math.max(0, delay);
+  };
+
+  const wait = async (ms: number, signal?: AbortSignal) => {
+    waitingUntil = Date.now() + ms;
+    notify();
+    try {
+      await sleep(ms, signal);
+    } catch (error) {
+      retry = null;
+      throw error;
+    } finally {
+      waitingUntil = null;
+    }
+  };
+
+  const attempt = async <T>(estimatedTokens: number, run: () => Promise<{ result: T; tokens: number }>, signal?: AbortSignal): Promise<T> => {
+    for (let n = 0; ; n++) {
+      if (signal?.aborted) throw signal.reason;
+      let delay = delayFor(estimatedTokens);
+      while (delay > 0) {
+        await wait(delay, signal);
+        delay = delayFor(estimatedTokens);
+      }
+
+      // Reserve the estimate now; the real count replaces it afterwards
+      const entry = { time: Date.now(), tokens: estimatedTokens };
+      window.push(entry);
+      inFlight = true;
+      notify();
+      try {
+        const { result, tokens } = await run();
+        entry.tokens = tokens || estimatedTokens;
+        retry = null;
+        return result;
+      } catch (error) {
+        if (n >= maxRetries || !isRetryableError(error)) {
+          retry = null;
+          throw error;
+        }
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** n);
+        const hinted = retryAfterMs(error);
+        // Equal jitter keeps parallel tabs from retrying in lockstep
+        const delayMs = hinted !== null
+          ? hinted + Math.random() * 1000
+          : backoff / 2 + Math.random() * (backoff / 2);
+        retry = { attempt: n + 1, maxRetries, reason: `HTTP ${statusOf(error)}` };
+        inFlight = false;
+        await wait(delayMs, signal);
+      } finally {
+        inFlight = false;
+        notify();
+      }
+    }
+  };
+
+  return {
+    schedule: (estimatedTokens, run, signal) => {
+      queued++;
+      notify();
+      const task = tail.then(() => {
+        queued--;
+        return attempt(estimatedTokens, run, signal);
+      });
+      // Keep the chain alive after failures
+      tail = task.catch(() => undefined);
+      return task;
+    },
+    configure: (next) => {
+      if (next.requestsPerMinute && next.requestsPerMinute > 0) limits.requestsPerMinute = next.requestsPerMinute;
+      if (next.tokensPerMinute && next.tokensPerMinute > 0) limits.tokensPerMinute = next.tokensPerMinute;
+      notify();
+    },
+    getState,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isHumanEdited, revertEdit, TranslationRevision, withHumanEdit, withRevision } from './revisions';
+
+type Pair = { translated: string; revisions?: TranslationRevision[] };
+const pairOf = (translated = ''): Pair => ({ translated });
+
+const machine = (text: string, at: number, engine = 'gemini:gemini-1.5-flash'): TranslationRevision =>
+  ({ text, origin: 'machine', engine, at });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('withRevision', () => {
+  it('appends the revision and makes it the translation', () => {
+    const first = withRevision(pairOf(), machine('Halo.', 1));
+    const second = withRevision(first, machine('Hai.', 2, 'memory'));
+    expect(second.translated).toBe('Hai.');
+    expect(second.revisions).toEqual([machine('Halo.', 1), machine('Hai.', 2, 'memory')]);
+  });
+
+  it('does not record the same output twice', () => {
+    const pair = withRevision(pairOf(), machine('Halo.', 1));
+    expect(withRevision(pair, machine('Halo.', 2)).revisions).toEqual([machine('Halo.', 1)]);
+    // Another engine arriving at the same text is still worth recording
+    expect(withRevision(pair, machine('Halo.', 2, 'memory')).revisions).toHaveLength(2);
+  });
+
+  it('drops the oldest machine output beyond the cap and keeps human edits', () => {
+    let pair = withHumanEdit(withRevision(pairOf(), machine('Mesin 0', 1)), 'Manual');
+    for (let i = 1; i <= 25; i++) pair = withRevision(pair, machine(`Mesin ${i}`, i + 1));
+
+    expect(pair.revisions).toHaveLength(20);
+    expect(pair.revisions![0]).toMatchObject({ text: 'Manual', origin: 'human' });
+    expect(pair.revisions![1].text).toBe('Mesin 7');
+    expect(pair.translated).toBe('Mesin 25');
+  });
+
+  it('keeps every human edit even past the cap', () => {
+    let pair = pairOf();
+    for (let i = 0; i < 25; i++) {
+      vi.setSystemTime(1000 + i);
+      pair = withHumanEdit(pair, `Edit ${i}`);
+    }
+    expect(pair.revisions).toHaveLength(25);
+  });
+});
+
+describe('withHumanEdit', () => {
+  it('marks the pair as edited by hand', () => {
+    const pair = withHumanEdit(withRevision(pairOf(), machine('Halo.', 1)), 'Halo!');
+    expect(pair.translated).toBe('Halo!');
+    expect(isHumanEdited(pair)).toBe(true);
+    expect(pair.revisions![1]).toEqual({ text: 'Halo!', origin: 'human', at: 1000 });
+  });
+
+  it('keeps a translation made before revisions existed', () => {
+    const pair = withHumanEdit(pairOf('Lama.'), 'Baru.');
+    expect(pair.revisions).toEqual([
+      { text: 'Lama.', origin: 'machine', at: 0 },
+      { text: 'Baru.', origin: 'human', at: 1000 }
+    ]);
+  });
+});
+
+describe('revertEdit', () => {
+  it('restores the revision before the edit', () => {
+    const edited = withHumanEdit(withRevision(pairOf(), machine('Halo.', 1)), 'Halo!');
+    const reverted = revertEdit(edited, 1000);
+    expect(reverted.translated).toBe('Halo.');
+    expect(reverted.revisions).toEqual([machine('Halo.', 1)]);
+    expect(isHumanEdited(reverted)).toBe(false);
+  });
+
+  it('restores an earlier edit when the newest one is reverted', () => {
+    let pair = withHumanEdit(pairOf(), 'Pertama');
+    vi.setSystemTime(2000);
+    pair = withHumanEdit(pair, 'Kedua');
+    const reverted = revertEdit(pair, 2000);
+    expect(reverted.translated).toBe('Pertama');
+    expect(isHumanEdited(reverted)).toBe(true);
+  });
+
+  it('leaves no translation when only the edit existed', () => {
+    expect(revertEdit(withHumanEdit(pairOf(), 'Sendiri'), 1000)).toEqual({ translated: '', revisions: [] });
+  });
+});
@@ -0,0 +1,51 @@
+// Revision history of a sentence's translation: engine output and human edits,
+// oldest first. The newest revision is the current translation, and a
+// sentence whose newest revision is a human edit is left alone by
+// translation runs until that edit is reverted.
+
+export interface TranslationRevision {
+  text: string;
+  origin: 'machine' | 'human';
+  engine?: string; // Engine id, or "memory" for translation-memory hits
+  at: number;      // epoch ms; 0 for output from before revisions were kept
+}
+
+interface Revisable {
+  translated: string;
+  revisions?: TranslationRevision[];
+}
+
+// Human edits are always kept; beyond this the oldest machine output goes
+const MAX_REVISIONS = 20;
+
+export const isHumanEdited = (pair: Revisable) =>
+  pair.revisions?.[pair.revisions.length - 1]?.origin === 'human';
+
+export const withRevision = <T extends Revisable>(pair: T, revision: TranslationRevision): T => {
+  // The same text from the same engine again (e.g. a re-translation) adds nothing
+  const newest = pair.revisions?.[pair.revisions.length - 1];
+  if (newest && newest.text === revision.text && newest.origin === revision.origin && newest.engine === revision.engine) {
+    return { ...pair, translated: revision.text };
+  }
+  const revisions = [...(pair.revisions || []), revision];
+  while (revisions.length > MAX_REVISIONS) {
+    const oldestMachine = revisions.findIndex(r => r.origin === 'machine');
+    if (oldestMachine === -1) break;
+    revisions.splice(oldestMachine, 1);
+  }
+  return { ...pair, translated: revision.text, revisions };
+};
+
+export const withHumanEdit = <T extends Revisable>(pair: T, text: string): T => {
+  // Keep a translation made before revisions existed, so the edit can be reverted to it
+  const base = !pair.revisions?.length && pair.translated
+    ? { ...pair, revisions: [{ text: pair.translated, origin: 'machine' as const, at: 0 }] }
+    : pair;
+  return withRevision(base, { text, origin: 'human', at: Date.now() });
+};
+
+// Drops a single human edit; the translation falls back to the newest revision left
+export const revertEdit = <T extends Revisable>(pair: T, at: number): T => {
+  const revisions = (pair.revisions || []).filter(r => r.origin !== 'human' || r.at !== at);
+  return { ...pair, revisions, translated: revisions[revisions.length - 1]?.text ?? '' };
+};
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { segmentSentences } from './segmenter';
+
+const intl = Intl as unknown as { Segmenter?: unknown };
+const nativeSegmenter = intl.Segmenter;
+
+// Runs both with Intl.Segmenter and with the punctuation scanner fallback
+const engines = [
+  ['Intl.Segmenter', () => { intl.Segmenter = nativeSegmenter; }],
+  ['fallback scanner', () => { intl.Segmenter = undefined; }]
+] as const;
+
+afterEach(() => {
+  intl.Segmenter = nativeSegmenter;
+});
+
+describe.each(engines)('segmentSentences (%s)', (_, useEngine) => {
+  const segment = (text: string, lang?: string) => {
+    useEngine();
+    return segmentSentences(text, lang);
+  };
+
+  it('splits on sentence-final punctuation', () => {
+    expect(segment('It rained. We stayed in! Did you?')).toEqual(['It rained.', 'We stayed in!', 'Did you?']);
+  });
+
+  it('keeps abbreviations inside the sentence', () => {
+    expect(segment('Dr. Watson met Mr. Holmes. They talked.')).toEqual(['Dr. Watson met Mr. Holmes.', 'They talked.']);
+    expect(segment('Bring fruit, e.g. apples and pears. Then leave.')).toEqual(['Bring fruit, e.g. apples and pears.', 'Then leave.']);
+    expect(segment('Pak Budi tinggal di Jl. Merdeka dll. Dia guru.', 'id')).toEqual(['Pak Budi tinggal di Jl. Merdeka dll. Dia guru.']);
+    expect(segment('Wir brauchen z.B. Milch. Das ist alles.', 'de')).toEqual(['Wir brauchen z.B. Milch.', 'Das ist alles.']);
+  });
+
+  it('treats "no." as an abbreviation only before a number', () => {
+    expect(segment('I said no. Then he left.')).toEqual(['I said no.', 'Then he left.']);
+    expect(segment('Saya bilang tidak, no. Dia pergi.', 'id')).toEqual(['Saya bilang tidak, no.', 'Dia pergi.']);
+    expect(segment('See No. 5 in the list. It is short.')).toEqual(['See No. 5 in the list.', 'It is short.']);
+    expect(segment('Das steht in Nr. 12 der Liste. Ende.', 'de')).toEqual(['Das steht in Nr. 12 der Liste.', 'Ende.']);
+  });
+
+  it('keeps initials and dotted acronyms together', () => {
+    expect(segment('J. R. R. Tolkien wrote it. Read it.')).toEqual(['J. R. R. Tolkien wrote it.', 'Read it.']);
+    expect(segment('She moved to the U.S. Army base. It was cold.')).toEqual(['She moved to the U.S. Army base.', 'It was cold.']);
+  });
+
+  it('does not split decimals', () => {
+    expect(segment('The rate is 3.5 percent. It rose.')).toEqual(['The rate is 3.5 percent.', 'It rose.']);
+    expect(segment('Harganya Rp 12.500 per kilo. Mahal.', 'id')).toEqual(['Harganya Rp 12.500 per kilo.', 'Mahal.']);
+  });
+
+  it('joins an ellipsis followed by a lowercase continuation', () => {
+    expect(segment('Wait... what happened? Nothing.')).toEqual(['Wait... what happened?', 'Nothing.']);
+    expect(segment('He paused… and then he spoke.')).toEqual(['He paused… and then he spoke.']);
+  });
+
+  it('keeps closing quotes with their sentence', () => {
+    expect(segment('"Run!" she shouted. He ran.')).toEqual(['"Run!" she shouted.', 'He ran.']);
+    expect(segment('He said, “It is late.” We left.')).toEqual(['He said, “It is late.”', 'We left.']);
+  });
+
+  it('keeps German ordinals in the sentence', () => {
+    expect(segment('Er kam am 3. Oktober an. Es regnete.', 'de')).toEqual(['Er kam am 3. Oktober an.', 'Es regnete.']);
+  });
+
+  it('keeps short utterances', () => {
+    expect(segment('Yes. No. Maybe.')).toEqual(['Yes.', 'No.', 'Maybe.']);
+  });
+
+  it('splits CJK text without spaces', () => {
+    expect(segment('今日は雨です。明日は晴れ！本当？', 'ja')).toEqual(['今日は雨です。', '明日は晴れ！', '本当？']);
+    expect(segment('我们走吧。好的！', 'zh')).toEqual(['我们走吧。', '好的！']);
+  });
+
+  it('splits Thai on spaces', () => {
+    expect(segment('ฉันไปตลาด เขาอยู่บ้าน', 'th')).toEqual(['ฉันไปตลาด', 'เขาอยู่บ้าน']);
+  });
+
+  it('returns nothing for blank text', () => {
+    expect(segment('   \n ')).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+// Language-aware sentence segmentation.
+// Candidate boundaries come from Intl.Segmenter when the runtime has it, or
+// from a punctuation scanner otherwise. A second pass then re-joins the
+// false breaks both produce: abbreviations ("Dr.", "e.g.", "z.B."), initials
+// ("U.S.", "J. R. R."), and breaks followed by a lowercase continuation
+// ("Wait... what?"). Short utterances such as "Yes." or "12" are kept.
+
+const ABBREVIATIONS: Record<string, string[]> = {
+  en: [
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'cf', 'fig', 'figs',
+    'vol', 'vols', 'pp', 'p', 'ch', 'ed', 'eds', 'inc', 'ltd', 'co', 'corp', 'approx',
+    'dept', 'est', 'mt', 'gen', 'col', 'lt', 'sgt', 'capt', 'rev', 'hon', 'jan', 'feb', 'mar', 'apr',
+    'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'a.m', 'p.m', 'al', 'ca', 'op', 'viz'
+  ],
+  id: [
+    'dll', 'dsb', 'dst', 'dkk', 'yth', 'bpk', 'sdr', 'sdri', 'hlm', 'tsb', 'kpd', 'dr', 'drs',
+    'prof', 'ir', 'h', 'hj', 'jl', 'kab', 'kec', 'kel', 'tgl', 'thn', 'spt', 'u.p', 's.d', 'a.n'
+  ],
+  ms: ['dll', 'dsb', 'tn', 'pn', 'dr', 'prof', 'hlm', 'jln', 'sdn', 'bhd'],
+  de: [
+    'z.b', 'u.a', 'd.h', 'bzw', 'usw', 'ca', 's', 'vgl', 'dr', 'prof', 'hr', 'fr', 'str', 'evtl',
+    'ggf', 'inkl', 'bspw', 'u.s.w', 'z.t', 'o.ä', 'u.ä', 'jh', 'abs', 'bd', 'hrsg', 'mio', 'mrd'
+  ],
+  fr: ['m', 'mm', 'mme', 'mmes', 'mlle', 'dr', 'p', 'ex', 'etc', 'cf', 'env', 'av', 'bd', 'st', 'ste', 'vol', 'chap', 'éd'],
+  es: ['sr', 'sra', 'srta', 'sres', 'dr', 'dra', 'etc', 'ej', 'pág', 'págs', 'ud', 'uds', 'av', 'avda', 'cap', 'vol'],
+  nl: ['dhr', 'mevr', 'bijv', 'enz', 'o.a', 'd.w.z', 'blz', 'ca', 'm.b.t', 'i.p.v'],
+  it: ['sig', 'sigg', 'sig.ra', 'dott', 'prof', 'ecc', 'es', 'pag', 'vol', 'cap'],
+  pt: ['sr', 'sra', 'dr', 'dra', 'etc', 'ex', 'pág', 'v', 'vol', 'cap', 'av'],
+};
+
+// "No." is also a word ("I said no."), so number abbreviations only hold
+// when a number follows: "No. 5", "Nr. 12", "núm. 3"
+const NUMBER_ABBREVIATIONS = new Set(['no', 'nos', 'nr', 'n', 'núm']);
+
+const abbreviationSet = (lang: string): Set<string> =>
+  new Set([...(ABBREVIATIONS[lang] || []), ...ABBREVIATIONS.en]);
+
+// Sentence-final punctuation, optionally followed by closing quotes/brackets
+const LATIN_BOUNDARY = /(?<=[.?!…]+['"”’»)\]]*)\s+/;
+// Never between a terminator and its closing quote: '"Run!" she said'
+const CJK_BOUNDARY = /(?<=[。！？!?]+['"”’」』）)\]]*)(?!['"”’」』）)\]])/;
+
+// Intl.Segmenter is ES2022; the project targets ES2020 typings
+export type IntlSegmenter = new (locale: string, options: { granularity: 'sentence' | 'word' }) => {
+  segment: (text: string) => Iterable<{ segment: string; isWordLike?: boolean }>;
+};
+
+export const getSegmenter = (): IntlSegmenter | undefined =>
+  typeof Intl !== 'undefined' ? (Intl as unknown as { Segmenter?: IntlSegmenter }).Segmenter : undefined;
+
+const rawSegments = (text: string, lang: string): string[] => {
+  const Segmenter = getSegmenter();
+  if (Segmenter) {
+    const segmenter = new Segmenter(lang, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text), s => s.segment);
+  }
+  return text
+    .split(LATIN_BOUNDARY)
+    .flatMap(part => part.split(CJK_BOUNDARY));
+};
+
+const lastToken = (segment: string) => {
+  const tokens = segment.trim().split(/\s+/);
+  return tokens[tokens.length - 1].replace(/^[("'“‘«\[]+/, '');
+};
+
+// Decides whether the break after `segment` is a false one
+const shouldJoin = (segment: string, next: string, abbreviations: Set<string>, lang: string): boolean => {
+  const trimmed = segment.trimEnd();
+  const following = next.trimStart();
+  if (!following) return false;
+
+  // Lowercase continuation: "e.g. apples", "Wait... what?"
+  if (/^\p{Ll}/u.test(following)) return true;
+
+  if (!trimmed.endsWith('.')) return false;
+  const token = lastToken(trimmed);
+  const bare = token.slice(0, -1).toLowerCase();
+
+  if (abbreviations.has(bare)) return true;
+  if (NUMBER_ABBREVIATIONS.has(bare) && /^\d/.test(following)) return true;
+  // Initials and dotted acronyms: "J.", "U.S.", "J.R.R."
+  if (/^(\p{Lu}\.)+$/u.test(token)) return true;
+  // German ordinals: "am 3. Oktober"
+  if (lang === 'de' && /^\d{1,2}\.$/.test(token)) return true;
+  return false;
+};
+
+const hasContent = (segment: string) => /[\p{L}\p{N}]/u.test(segment);
+
+export const segmentSentences = (text: string, lang = 'en'): string[] => {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (!normalized) return [];
+
+  const abbreviations = abbreviationSet(lang);
+  const segments = rawSegments(normalized, lang);
+
+  const merged: string[] = [];
+  let current = '';
+  segments.forEach((segment, i) => {
+    current += current && !/\s$/.test(current) && !/^\s/.test(segment) && !/[。！？]$/.test(current) ? ' ' + segment : segment;
+    const next = segments[i + 1];
+    if (next !== undefined && shouldJoin(current, next, abbreviations, lang)) return;
+    merged.push(current.trim());
+    current = '';
+  });
+  if (current.trim()) merged.push(current.trim());
+
+  // Thai marks sentence ends with a space rather than punctuation
+  const sentences = lang === 'th'
+    ? merged.flatMap(s => s.split(/\s+/))
+    : merged;
+
+  return sentences.filter(hasContent);
+};
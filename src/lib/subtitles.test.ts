@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimestamp, getSubtitleFormat, parseSubtitles, serializeSubtitles } from './subtitles';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:03,500',
+  'Hello there.',
+  '',
+  '2',
+  '00:00:04,200 --> 00:00:06,000',
+  'How are you?',
+  '',
+  '3',
+  '01:02:03,004 --> 01:02:05,000',
+  'Fine, thanks.',
+  ''
+].join('\n');
+
+const VTT = [
+  'WEBVTT - Example',
+  'Kind: captions',
+  '',
+  'NOTE This is a comment',
+  'spanning two lines',
+  '',
+  'STYLE',
+  '::cue { color: yellow }',
+  '',
+  'intro',
+  '00:01.000 --> 00:03.500 align:start line:0',
+  '<i>Hello</i> there.',
+  '',
+  '00:00:04.200 --> 00:00:06.000',
+  '<v Anna>How are you?',
+  ''
+].join('\n');
+
+const cuesOf = (content: string) => parseSubtitles(content).map(cue => ({ cue }));
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues with their timing', () => {
+    expect(parseSubtitles(SRT)).toEqual([
+      { index: 1, start: 1000, end: 3500, settings: undefined, text: 'Hello there.' },
+      { index: 2, start: 4200, end: 6000, settings: undefined, text: 'How are you?' },
+      { index: 3, start: 3723004, end: 3725000, settings: undefined, text: 'Fine, thanks.' }
+    ]);
+  });
+
+  it('reads CRLF files and a byte order mark', () => {
+    expect(parseSubtitles(`\uFEFF${SRT.replace(/\n/g, '\r\n')}`)).toEqual(parseSubtitles(SRT));
+  });
+
+  it('skips the VTT header, NOTE and STYLE blocks and strips markup', () => {
+    expect(parseSubtitles(VTT)).toEqual([
+      { index: 1, start: 1000, end: 3500, settings: 'align:start line:0', text: 'Hello there.' },
+      { index: 2, start: 4200, end: 6000, settings: undefined, text: 'How are you?' }
+    ]);
+  });
+
+  it('joins the lines of a multi-line cue for translation', () => {
+    const content = '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}First line\n<b>second line</b>\n';
+    expect(parseSubtitles(content)[0].text).toBe('First line second line');
+  });
+
+  it('accepts both millisecond separators and short fractions', () => {
+    const content = '00:00:01.5 --> 00:00:02,25\nA\n\n00:03,125 --> 00:04.000\nB\n';
+    expect(parseSubtitles(content).map(c => [c.start, c.end])).toEqual([[1500, 2250], [3125, 4000]]);
+  });
+
+  it('ignores cues without text', () => {
+    expect(parseSubtitles('1\n00:00:01,000 --> 00:00:02,000\n<i></i>\n\n2\n00:00:03,000 --> 00:00:04,000\nB\n')).toHaveLength(1);
+  });
+});
+
+describe('serializeSubtitles', () => {
+  it('round-trips an SRT file', () => {
+    expect(serializeSubtitles(cuesOf(SRT.replace(/\n/g, '\r\n')), 'srt', 'translated')).toBe(SRT);
+  });
+
+  it('round-trips a VTT file without its comments and markup', () => {
+    expect(serializeSubtitles(cuesOf(VTT), 'vtt', 'translated')).toBe([
+      'WEBVTT',
+      '',
+      '1',
+      '00:00:01.000 --> 00:00:03.500 align:start line:0',
+      'Hello there.',
+      '',
+      '2',
+      '00:00:04.200 --> 00:00:06.000',
+      'How are you?',
+      ''
+    ].join('\n'));
+  });
+
+  it('converts between formats with the right millisecond separator', () => {
+    const srt = serializeSubtitles(cuesOf(VTT), 'srt', 'translated');
+    expect(srt).toContain('00:00:01,000 --> 00:00:03,500\n');
+    expect(srt).not.toContain('align:start');
+    expect(parseSubtitles(srt).map(c => c.start)).toEqual([1000, 4200]);
+  });
+
+  it('writes translations, falling back to the original when missing', () => {
+    const cues = parseSubtitles(SRT);
+    const translated = [{ cue: cues[0], translated: 'Halo.' }, { cue: cues[1] }];
+    expect(serializeSubtitles(translated, 'srt', 'translated')).toBe(
+      '1\n00:00:01,000 --> 00:00:03,500\nHalo.\n\n2\n00:00:04,200 --> 00:00:06,000\nHow are you?\n'
+    );
+    expect(serializeSubtitles(translated, 'srt', 'bilingual')).toBe(
+      '1\n00:00:01,000 --> 00:00:03,500\nHello there.\nHalo.\n\n2\n00:00:04,200 --> 00:00:06,000\nHow are you?\n'
+    );
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('pads every field', () => {
+    expect(formatTimestamp(3723004, 'srt')).toBe('01:02:03,004');
+    expect(formatTimestamp(5, 'vtt')).toBe('00:00:00.005');
+  });
+});
+
+describe('getSubtitleFormat', () => {
+  it('recognises the file extension', () => {
+    expect(getSubtitleFormat('Movie.SRT')).toBe('srt');
+    expect(getSubtitleFormat('movie.en.vtt')).toBe('vtt');
+    expect(getSubtitleFormat('book.pdf')).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+// SRT / WebVTT parsing and serialisation.
+// Cues keep their original timing so exported files line up with the video.
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  index: number; // 1-based position in the file
+  start: number; // milliseconds
+  end: number; // milliseconds
+  settings?: string; // WebVTT cue settings, e.g. "align:start line:0"
+  text: string;
+}
+
+export type SubtitleExportMode = 'translated' | 'bilingual';
+
+const TIMING_RE = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(.*)/;
+
+export const getSubtitleFormat = (fileName: string): SubtitleFormat | null => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.srt')) return 'srt';
+  if (lower.endsWith('.vtt')) return 'vtt';
+  return null;
+};
+
+const parseTimestamp = (value: string): number => {
+  const [clock, fraction = '0'] = value.replace(',', '.').split('.');
+  const parts = clock.split(':').map(n => parseInt(n, 10));
+  while (parts.length < 3) parts.unshift(0);
+  const [h, m, s] = parts;
+  return ((h * 60 + m) * 60 + s) * 1000 + parseInt(fraction.padEnd(3, '0').slice(0, 3), 10);
+};
+
+export const formatTimestamp = (ms: number, format: SubtitleFormat): string => {
+  const pad = (n: number, len = 2) => n.toString().padStart(len, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${format === 'srt' ? ',' : '.'}${pad(millis, 3)}`;
+};
+
+// Formatting tags (<i>, <b>, <c.class>, {\an8}) would confuse the translators.
+const stripMarkup = (text: string) =>
+  text.replace(/<[^>]+>/g, '').replace(/\{\\[^}]*\}/g, '');
+
+export const parseSubtitles = (content: string): SubtitleCue[] => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/);
+
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(l => l.trim().length > 0);
+    const timingLine = lines.findIndex(l => TIMING_RE.test(l));
+    if (timingLine === -1) continue; // WEBVTT header, NOTE, STYLE blocks
+
+    const match = lines[timingLine].match(TIMING_RE)!;
+    const text = lines
+      .slice(timingLine + 1)
+      .map(l => stripMarkup(l).trim())
+      .filter(Boolean)
+      .join(' ');
+    if (!text) continue;
+
+    cues.push({
+      index: cues.length + 1,
+      start: parseTimestamp(match[1]),
+      end: parseTimestamp(match[2]),
+      settings: match[3].trim() || undefined,
+      text
+    });
+  }
+  return cues;
+};
+
+export const serializeSubtitles = (
+  cues: { cue: SubtitleCue; translated?: string }[],
+  format: SubtitleFormat,
+  mode: SubtitleExportMode
+): string => {
+  const blocks = cues.map(({ cue, translated }, i) => {
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`
+      + (format === 'vtt' && cue.settings ? ` ${cue.settings}` : '');
+    // Untranslated cues fall back to the original so no line goes missing
+    const body = mode === 'bilingual'
+      ? (translated ? `${cue.text}\n${translated}` : cue.text)
+      : (translated || cue.text);
+    return `${format === 'srt' ? i + 1 : cue.index}\n${timing}\n${body}`;
+  });
+  const output = blocks.join('\n\n') + '\n';
+  return format === 'vtt' ? `WEBVTT\n\n${output}` : output;
+};
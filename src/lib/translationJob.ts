@@ -0,0 +1,65 @@
+import { TranslationCancelledError } from './translatorClient';
+
+// A translation run is a job that can be paused, resumed and cancelled.
+// Pausing and cancelling both abort the request in flight: fetch-based
+// providers through the job's AbortSignal, the Transformers.js worker through
+// its cancellation flag. A paused job is persisted per book, so it can be
+// resumed after a reload from the first sentence it hadn't translated yet.
+
+export interface TranslationJobRecord {
+  bookId: string;
+  status: 'running' | 'paused'; // "running" after a reload means the tab closed mid-run
+  providerId: string;
+  source: string;
+  target: string;
+  // Partial runs (retry / re-translate) keep the sentences still to do;
+  // full runs resume from whatever isn't completed yet
+  indices?: number[];
+  skipMemory?: boolean;
+  updatedAt: number;
+}
+
+export interface TranslationJob {
+  signal: AbortSignal;
+  stopReason: () => 'pause' | 'cancel' | null;
+  pause: () => void;
+  cancel: () => void;
+}
+
+export const createTranslationJob = (): TranslationJob => {
+  const controller = new AbortController();
+  let reason: 'pause' | 'cancel' | null = null;
+  const stop = (next: 'pause' | 'cancel') => {
+    if (reason) return;
+    reason = next;
+    controller.abort();
+  };
+  return {
+    signal: controller.signal,
+    stopReason: () => reason,
+    pause: () => stop('pause'),
+    cancel: () => stop('cancel')
+  };
+};
+
+export const isAbortError = (error: any) =>
+  error instanceof TranslationCancelledError || error?.name === 'AbortError';
+
+const jobKey = (bookId: string) => `translation-job-${bookId}`;
+
+export const loadJob = (bookId: string): TranslationJobRecord | null => {
+  try {
+    const saved = localStorage.getItem(jobKey(bookId));
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveJob = (record: TranslationJobRecord) => {
+  localStorage.setItem(jobKey(record.bookId), JSON.stringify(record));
+};
+
+export const clearJob = (bookId: string) => {
+  localStorage.removeItem(jobKey(bookId));
+};
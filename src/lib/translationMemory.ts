@@ -0,0 +1,256 @@
+import { MEMORY_STORE, openReaderDB, requestToPromise, transactionDone } from './db';
+import { hashString } from './hash';
+
+// Cross-book translation memory (TM) in IndexedDB.
+// Entries are keyed by a hash of the normalised source sentence, the language
+// pair and the engine, so a sentence translated once is never re-sent to a
+// provider. Fuzzy lookup compares against entries of similar length using
+// edit distance.
+
+export interface MemoryScope {
+  source: string;
+  target: string;
+  engine: string; // provider id plus model, e.g. "gemini:gemini-1.5-flash"
+}
+
+export interface MemoryEntry {
+  key: string;
+  pair: string; // "<source>><target>><engine>"
+  source: string;
+  translation: string;
+  length: number; // normalised source length, for fuzzy candidate ranges
+  sourceLang: string;
+  targetLang: string;
+  engine: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export interface MemoryMatch {
+  kind: 'exact' | 'fuzzy';
+  similarity: number; // 1 for exact matches
+  translation: string;
+  source: string;
+}
+
+export interface MemoryStats {
+  entries: number;
+  lookups: number;
+  exactHits: number;
+  fuzzyHits: number;
+  hitRate: number; // 0..1
+}
+
+const STATS_KEY = 'tm_stats';
+// Fuzzy candidates are only scanned up to this many per sentence
+const MAX_FUZZY_CANDIDATES = 300;
+
+export const normalizeSentence = (text: string) =>
+  text
+    .normalize('NFKC')
+    .replace(/[‘’‚‛]/g, "'")
+    .replace(/[“”„‟«»]/g, '"')
+    .replace(/[‐‑‒–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const pairKey = ({ source, target, engine }: MemoryScope) => `${source}>${target}>${engine}`;
+
+export const memoryKey = (text: string, scope: MemoryScope) =>
+  hashString(`${pairKey(scope)}\u0000${normalizeSentence(text)}`);
+
+// Levenshtein distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+export const similarity = (a: string, b: string): number => {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  return 1 - editDistance(a, b, longest) / longest;
+};
+
+const readStats = (): Omit<MemoryStats, 'entries' | 'hitRate'> => {
+  try {
+    return { lookups: 0, exactHits: 0, fuzzyHits: 0, ...JSON.parse(localStorage.getItem(STATS_KEY) || '{}') };
+  } catch {
+    return { lookups: 0, exactHits: 0, fuzzyHits: 0 };
+  }
+};
+
+const recordLookups = (lookups: number, exactHits: number, fuzzyHits: number) => {
+  const stats = readStats();
+  localStorage.setItem(STATS_KEY, JSON.stringify({
+    lookups: stats.lookups + lookups,
+    exactHits: stats.exactHits + exactHits,
+    fuzzyHits: stats.fuzzyHits + fuzzyHits
+  }));
+};
+
+const findFuzzy = async (store: IDBObjectStore, normalized: string, scope: MemoryScope, threshold: number): Promise<MemoryEntry | null> => {
+  // Entries whose length can still reach the threshold
+  const slack = Math.floor(normalized.length * (1 - threshold));
+  const range = IDBKeyRange.bound(
+    [pairKey(scope), normalized.length - slack],
+    [pairKey(scope), normalized.length + slack]
+  );
+  const candidates = await requestToPromise<MemoryEntry[]>(
+    store.index('pairLength').getAll(range, MAX_FUZZY_CANDIDATES) as IDBRequest<MemoryEntry[]>
+  );
+
+  let best: MemoryEntry | null = null;
+  let bestScore = threshold;
+  for (const candidate of candidates) {
+    const score = similarity(normalized, normalizeSentence(candidate.source));
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// One result per text, null when the memory has nothing usable.
+// Pass fuzzyThreshold >= 1 to disable fuzzy matching.
+export const lookupTranslations = async (
+  texts: string[],
+  scope: MemoryScope,
+  fuzzyThreshold = 1
+): Promise<(MemoryMatch | null)[]> => {
+  if (texts.length === 0) return [];
+  const db = await openReaderDB();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  const store = tx.objectStore(MEMORY_STORE);
+  const now = Date.now();
+  let exactHits = 0;
+  let fuzzyHits = 0;
+
+  const results: (MemoryMatch | null)[] = [];
+  for (const text of texts) {
+    const normalized = normalizeSentence(text);
+    const exact = await requestToPromise<MemoryEntry | undefined>(store.get(memoryKey(text, scope)));
+    // The key is only a hash: a colliding entry for another sentence is not a hit
+    if (exact && exact.pair === pairKey(scope) && normalizeSentence(exact.source) === normalized) {
+      exactHits++;
+      store.put({ ...exact, lastUsedAt: now, hits: exact.hits + 1 });
+      results.push({ kind: 'exact', similarity: 1, translation: exact.translation, source: exact.source });
+      continue;
+    }
+    if (fuzzyThreshold < 1) {
+      const fuzzy = await findFuzzy(store, normalized, scope, fuzzyThreshold);
+      if (fuzzy) {
+        fuzzyHits++;
+        store.put({ ...fuzzy, lastUsedAt: now, hits: fuzzy.hits + 1 });
+        results.push({
+          kind: 'fuzzy',
+          similarity: similarity(normalized, normalizeSentence(fuzzy.source)),
+          translation: fuzzy.translation,
+          source: fuzzy.source
+        });
+        continue;
+      }
+    }
+    results.push(null);
+  }
+
+  await transactionDone(tx);
+  recordLookups(texts.length, exactHits, fuzzyHits);
+  return results;
+};
+
+export const storeTranslations = async (
+  items: { source: string; translation: string }[],
+  scope: MemoryScope
+) => {
+  const usable = items.filter(item => item.source.trim() && item.translation.trim());
+  if (usable.length === 0) return;
+  const db = await openReaderDB();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  const store = tx.objectStore(MEMORY_STORE);
+  const now = Date.now();
+  for (const { source, translation } of usable) {
+    const entry: MemoryEntry = {
+      key: memoryKey(source, scope),
+      pair: pairKey(scope),
+      source,
+      translation,
+      length: normalizeSentence(source).length,
+      sourceLang: scope.source,
+      targetLang: scope.target,
+      engine: scope.engine,
+      createdAt: now,
+      lastUsedAt: now,
+      hits: 0
+    };
+    store.put(entry);
+  }
+  await transactionDone(tx);
+};
+
+export const getMemoryStats = async (): Promise<MemoryStats> => {
+  const db = await openReaderDB();
+  const entries = await requestToPromise(db.transaction(MEMORY_STORE).objectStore(MEMORY_STORE).count());
+  const stats = readStats();
+  return {
+    ...stats,
+    entries,
+    hitRate: stats.lookups ? (stats.exactHits + stats.fuzzyHits) / stats.lookups : 0
+  };
+};
+
+// Most recently used entries first, optionally filtered by source/translation text
+export const listMemoryEntries = async (query = '', limit = 100): Promise<MemoryEntry[]> => {
+  const db = await openReaderDB();
+  const index = db.transaction(MEMORY_STORE).objectStore(MEMORY_STORE).index('lastUsedAt');
+  const needle = query.trim().toLowerCase();
+  const entries: MemoryEntry[] = [];
+
+  return new Promise((resolve, reject) => {
+    const request = index.openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || entries.length >= limit) {
+        resolve(entries);
+        return;
+      }
+      const entry = cursor.value as MemoryEntry;
+      if (!needle || entry.source.toLowerCase().includes(needle) || entry.translation.toLowerCase().includes(needle)) {
+        entries.push(entry);
+      }
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteMemoryEntry = async (key: string) => {
+  const db = await openReaderDB();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  tx.objectStore(MEMORY_STORE).delete(key);
+  await transactionDone(tx);
+};
+
+export const clearTranslationMemory = async () => {
+  const db = await openReaderDB();
+  const tx = db.transaction(MEMORY_STORE, 'readwrite');
+  tx.objectStore(MEMORY_STORE).clear();
+  await transactionDone(tx);
+  localStorage.removeItem(STATS_KEY);
+};
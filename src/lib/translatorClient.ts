@@ -0,0 +1,100 @@
+import type { ModelProgressData, TranslatorRequest, TranslatorResponse } from './translatorProtocol';
+
+// Promise-based wrapper around the translator worker.
+
+export class TranslationCancelledError extends Error {
+  constructor() {
+    super('Terjemahan dibatalkan.');
+    this.name = 'TranslationCancelledError';
+  }
+}
+
+export interface TranslatorWorker {
+  load: (
+    options: { modelId: string; modelSource: 'remote' | 'custom'; quantized: boolean; files?: Map<string, Blob> },
+    onProgress: (data: ModelProgressData) => void
+  ) => Promise<{ hasDecoder: boolean }>;
+  translate: (texts: string[], options: Record<string, unknown>) => Promise<{ translations: string[]; latency: number }>;
+  cancel: () => void;
+  terminate: () => void;
+}
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+interface Pending {
+  resolve: (msg: TranslatorResponse) => void;
+  reject: (err: Error) => void;
+  onProgress?: (data: ModelProgressData) => void;
+}
+
+export const createTranslatorWorker = (onLog?: (msg: string) => void): TranslatorWorker => {
+  const worker = new Worker(new URL('../workers/translator.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, Pending>();
+  let nextId = 1;
+  let activeTranslateId: number | null = null;
+
+  worker.onmessage = (event: MessageEvent<TranslatorResponse>) => {
+    const msg = event.data;
+    if (msg.type === 'log') {
+      onLog?.(msg.message);
+      return;
+    }
+    const entry = pending.get(msg.requestId);
+    if (!entry) return;
+    if (msg.type === 'progress') {
+      entry.onProgress?.(msg.data);
+      return;
+    }
+    pending.delete(msg.requestId);
+    if (msg.type === 'error') entry.reject(new Error(msg.message));
+    else if (msg.type === 'cancelled') entry.reject(new TranslationCancelledError());
+    else entry.resolve(msg);
+  };
+
+  worker.onerror = (event) => {
+    const err = new Error(event.message || 'Translator worker crashed');
+    pending.forEach(p => p.reject(err));
+    pending.clear();
+  };
+
+  const request = (msg: DistributiveOmit<TranslatorRequest, 'requestId'>, onProgress?: (data: ModelProgressData) => void) => {
+    const requestId = nextId++;
+    return {
+      requestId,
+      promise: new Promise<TranslatorResponse>((resolve, reject) => {
+        pending.set(requestId, { resolve, reject, onProgress });
+        worker.postMessage({ ...msg, requestId } as TranslatorRequest);
+      })
+    };
+  };
+
+  return {
+    load: async (options, onProgress) => {
+      const { promise } = request({ type: 'load', ...options }, onProgress);
+      const msg = await promise;
+      return { hasDecoder: msg.type === 'loaded' && msg.hasDecoder };
+    },
+    translate: async (texts, options) => {
+      const { requestId, promise } = request({ type: 'translate', texts, options });
+      activeTranslateId = requestId;
+      try {
+        const msg = await promise;
+        return msg.type === 'result'
+          ? { translations: msg.translations, latency: msg.latency }
+          : { translations: [], latency: 0 };
+      } finally {
+        if (activeTranslateId === requestId) activeTranslateId = null;
+      }
+    },
+    cancel: () => {
+      if (activeTranslateId !== null) {
+        worker.postMessage({ type: 'cancel', requestId: activeTranslateId } as TranslatorRequest);
+      }
+    },
+    terminate: () => {
+      pending.forEach(p => p.reject(new TranslationCancelledError()));
+      pending.clear();
+      worker.terminate();
+    }
+  };
+};
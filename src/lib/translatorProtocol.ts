@@ -0,0 +1,35 @@
+// Message protocol between the app and the Transformers.js translator worker.
+// Every request carries a requestId; the worker answers with the same id.
+
+export interface ModelProgressData {
+  status: 'initiate' | 'download' | 'progress' | 'done' | 'ready' | string;
+  file?: string;
+  loaded?: number;
+  total?: number;
+  progress?: number;
+}
+
+export type TranslatorRequest =
+  | {
+    type: 'load';
+    requestId: number;
+    modelId: string;
+    modelSource: 'remote' | 'custom';
+    quantized: boolean;
+    files?: Map<string, Blob>; // custom-model uploads, served inside the worker
+  }
+  | {
+    type: 'translate';
+    requestId: number;
+    texts: string[];
+    options: Record<string, unknown>; // max_new_tokens, src_lang, tgt_lang...
+  }
+  | { type: 'cancel'; requestId: number };
+
+export type TranslatorResponse =
+  | { type: 'progress'; requestId: number; data: ModelProgressData }
+  | { type: 'loaded'; requestId: number; hasDecoder: boolean }
+  | { type: 'result'; requestId: number; translations: string[]; latency: number }
+  | { type: 'cancelled'; requestId: number }
+  | { type: 'error'; requestId: number; message: string }
+  | { type: 'log'; message: string };
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { pickNextBatch, prefetchWindow, removeFromQueue } from './viewportQueue';
+
+const range = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+describe('pickNextBatch', () => {
+  const window = { ahead: 10, behind: 3 };
+
+  it('starts at the sentence the reader is at', () => {
+    expect(pickNextBatch(range(0, 100), 40, 4, window, false)).toEqual([40, 41, 42, 43]);
+  });
+
+  it('takes what is ahead before what is behind', () => {
+    // Only 42..50 are left ahead within the window, then 39..37 behind
+    const remaining = [...range(0, 40), ...range(42, 100)];
+    expect(pickNextBatch(remaining, 40, 12, window, false)).toEqual([37, 38, 39, ...range(42, 51)]);
+  });
+
+  it('stays within the look-ahead distance outside background mode', () => {
+    expect(pickNextBatch(range(0, 100), 40, 50, window, false)).toEqual(range(37, 51));
+    expect(pickNextBatch(range(60, 100), 40, 5, window, false)).toEqual([]);
+  });
+
+  it('continues past the window in background mode', () => {
+    expect(pickNextBatch(range(60, 100), 40, 3, window, true)).toEqual([60, 61, 62]);
+    expect(pickNextBatch(range(0, 20), 40, 3, window, true)).toEqual([17, 18, 19]);
+    expect(pickNextBatch([5, 38, 70], 40, 3, window, true)).toEqual([5, 38, 70]);
+  });
+
+  it('never picks more than the batch size', () => {
+    expect(pickNextBatch(range(0, 100), 0, 12, window, true)).toHaveLength(12);
+    expect(pickNextBatch(range(0, 100), 50, 1, window, false)).toEqual([50]);
+  });
+
+  it('only picks sentences still in the queue', () => {
+    // 41 is in flight and 42..44 are done, so they are no longer queued
+    const remaining = removeFromQueue(range(38, 60), [41, 42, 43, 44]);
+    expect(pickNextBatch(remaining, 41, 4, window, false)).toEqual([45, 46, 47, 48]);
+  });
+
+  it('returns indices in reading order', () => {
+    const picked = pickNextBatch([10, 11, 20, 21], 20, 4, window, false);
+    expect(picked).toEqual([...picked].sort((a, b) => a - b));
+  });
+});
+
+describe('prefetchWindow', () => {
+  it('keeps a quarter of the prefetch behind the reader', () => {
+    expect(prefetchWindow(20)).toEqual({ ahead: 20, behind: 5 });
+    expect(prefetchWindow(5)).toEqual({ ahead: 5, behind: 2 });
+  });
+});
+
+describe('removeFromQueue', () => {
+  it('drops the given indices and keeps the order', () => {
+    expect(removeFromQueue([1, 3, 5, 7], [5, 1, 9])).toEqual([3, 7]);
+  });
+});
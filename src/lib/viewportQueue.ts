@@ -0,0 +1,58 @@
+// Picks which sentences to translate next, nearest to the reader first.
+// The window spans `behind` sentences before the focus and `ahead` after it;
+// sentences ahead win over those behind, since that's where the reader goes.
+// Outside the window sentences are only taken in background mode, once the
+// window is done. The focus is re-read for every batch, so a jump to another
+// page reprioritises the queue immediately.
+
+export interface PriorityWindow {
+  ahead: number;
+  behind: number;
+}
+
+// Window for a prefetch setting: a quarter of it is kept behind the reader
+export const prefetchWindow = (ahead: number): PriorityWindow => ({
+  ahead,
+  behind: Math.ceil(ahead / 4)
+});
+
+// `remaining` must be sorted ascending; the picked indices are returned
+// sorted too, so a batch reads as a passage where it can
+export const pickNextBatch = (
+  remaining: number[],
+  focus: number,
+  size: number,
+  window: PriorityWindow,
+  background: boolean
+): number[] => {
+  // First remaining index at or after the focus
+  let lo = 0;
+  let hi = remaining.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (remaining[mid] < focus) lo = mid + 1;
+    else hi = mid;
+  }
+
+  const picked: number[] = [];
+  let forward = lo;
+  let backward = lo - 1;
+  const take = (limitAhead: number, limitBehind: number) => {
+    while (picked.length < size && forward < remaining.length && remaining[forward] <= limitAhead) {
+      picked.push(remaining[forward++]);
+    }
+    while (picked.length < size && backward >= 0 && remaining[backward] >= limitBehind) {
+      picked.push(remaining[backward--]);
+    }
+  };
+
+  take(focus + window.ahead, focus - window.behind);
+  if (background) take(Infinity, -Infinity);
+  return picked.sort((a, b) => a - b);
+};
+
+// Removes translated or attempted indices from the sorted queue
+export const removeFromQueue = (remaining: number[], done: number[]): number[] => {
+  const doneSet = new Set(done);
+  return remaining.filter(j => !doneSet.has(j));
+};
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+// Windowed rendering for long lists that scroll with the page.
+// Only rows near the viewport are mounted; the rest are replaced by padding
+// computed from row heights. Heights start as an estimate and are corrected
+// by a ResizeObserver once a row has been rendered, so rows can be of any
+// (and changing) height.
+
+export interface VirtualListOptions {
+  count: number;
+  estimateSize: number; // px for rows that haven't been measured yet
+  overscan?: number;    // px mounted beyond each edge of the viewport
+  resetKey?: unknown;   // measurements are dropped when this changes
+}
+
+export interface ScrollToIndexOptions {
+  align?: 'start' | 'center';
+  behavior?: ScrollBehavior;
+}
+
+export interface VirtualListHandle {
+  scrollToIndex: (index: number, options?: ScrollToIndexOptions) => void;
+  indexAtViewportCenter: () => number | null;
+}
+
+// Largest i with offsets[i] <= offset, clamped to the row range
+const rowAt = (offsets: number[], count: number, offset: number) => {
+  let lo = 0;
+  let hi = count - 1;
+  let found = 0;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (offsets[mid] <= offset) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+};
+
+export const useWindowVirtualizer = ({ count, estimateSize, overscan = 600, resetKey }: VirtualListOptions) => {
+  const containerRef = useRef<HTMLElement | null>(null);
+  const sizesRef = useRef<number[]>([]);
+  const offsetsRef = useRef<number[]>([0]);
+  const elementsRef = useRef(new Map<number, HTMLElement>());
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const pendingRef = useRef({ frame: 0, remeasured: false });
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [, setLayoutVersion] = useState(0);
+
+  const recomputeOffsets = () => {
+    const sizes = sizesRef.current;
+    const offsets = new Array<number>(sizes.length + 1);
+    offsets[0] = 0;
+    for (let i = 0; i < sizes.length; i++) offsets[i + 1] = offsets[i] + sizes[i];
+    offsetsRef.current = offsets;
+  };
+
+  const updateRange = () => {
+    const container = containerRef.current;
+    if (!container || count === 0) {
+      setRange(prev => prev.start === 0 && prev.end === 0 ? prev : { start: 0, end: 0 });
+      return;
+    }
+    const top = container.getBoundingClientRect().top;
+    const start = rowAt(offsetsRef.current, count, -top - overscan);
+    const end = rowAt(offsetsRef.current, count, -top + window.innerHeight + overscan) + 1;
+    setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+  };
+
+  // Coalesces measurements and scroll events into one update per frame
+  const scheduleUpdate = (remeasured: boolean) => {
+    const pending = pendingRef.current;
+    if (remeasured) pending.remeasured = true;
+    if (pending.frame) return;
+    pending.frame = requestAnimationFrame(() => {
+      pending.frame = 0;
+      if (pending.remeasured) {
+        pending.remeasured = false;
+        recomputeOffsets();
+        setLayoutVersion(v => v + 1);
+      }
+      updateRange();
+    });
+  };
+  const scheduleRef = useRef(scheduleUpdate);
+  scheduleRef.current = scheduleUpdate;
+
+  // New rows get the estimate; a reset forgets every measurement
+  const lastResetKey = useRef(resetKey);
+  if (lastResetKey.current !== resetKey || sizesRef.current.length !== count) {
+    const keep = lastResetKey.current === resetKey ? sizesRef.current.slice(0, count) : [];
+    while (keep.length < count) keep.push(estimateSize);
+    sizesRef.current = keep;
+    lastResetKey.current = resetKey;
+    recomputeOffsets();
+  }
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [count, resetKey]);
+
+  useEffect(() => {
+    const observer = new ResizeObserver(entries => {
+      let changed = false;
+      for (const entry of entries) {
+        const element = entry.target as HTMLElement;
+        const index = Number(element.dataset.index);
+        if (!element.isConnected || isNaN(index) || index >= sizesRef.current.length) continue;
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? element.offsetHeight;
+        if (height > 0 && Math.abs(sizesRef.current[index] - height) > 0.5) {
+          sizesRef.current[index] = height;
+          changed = true;
+        }
+      }
+      if (changed) scheduleRef.current(true);
+    });
+    observerRef.current = observer;
+    elementsRef.current.forEach(element => observer.observe(element));
+
+    const onScroll = () => scheduleRef.current(false);
+    window.addEventListener('scroll', onScroll, { passive: true });
+    window.addEventListener('resize', onScroll);
+    return () => {
+      observer.disconnect();
+      observerRef.current = null;
+      window.removeEventListener('scroll', onScroll);
+      window.removeEventListener('resize', onScroll);
+      cancelAnimationFrame(pendingRef.current.frame);
+      pendingRef.current = { frame: 0, remeasured: false };
+    };
+  }, []);
+
+  // Rows pass this as their ref and carry a data-index attribute
+  const measureRef = useCallback((element: HTMLElement | null) => {
+    if (!element) return;
+    const index = Number(element.dataset.index);
+    const previous = elementsRef.current.get(index);
+    if (previous === element) return;
+    if (previous) observerRef.current?.unobserve(previous);
+    elementsRef.current.set(index, element);
+    observerRef.current?.observe(element);
+  }, []);
+
+  // Unmounted rows stop being observed
+  useEffect(() => {
+    elementsRef.current.forEach((element, index) => {
+      if (index < range.start || index >= range.end || !element.isConnected) {
+        observerRef.current?.unobserve(element);
+        elementsRef.current.delete(index);
+      }
+    });
+  }, [range]);
+
+  const scrollToIndex = useCallback((index: number, { align = 'start', behavior = 'auto' }: ScrollToIndexOptions = {}) => {
+    const container = containerRef.current;
+    if (!container || index < 0 || index >= sizesRef.current.length) return;
+    const mounted = elementsRef.current.get(index);
+    if (mounted?.isConnected) {
+      mounted.scrollIntoView({ block: align, behavior });
+      return;
+    }
+    // Jump to the estimated position, then settle on the real row once it
+    // has been mounted and measured
+    const rowTop = container.getBoundingClientRect().top + window.scrollY + offsetsRef.current[index];
+    const target = align === 'center'
+      ? rowTop - window.innerHeight / 2 + sizesRef.current[index] / 2
+      : rowTop;
+    window.scrollTo({ top: Math.max(0, target), behavior: 'auto' });
+    requestAnimationFrame(() => requestAnimationFrame(() => {
+      elementsRef.current.get(index)?.scrollIntoView({ block: align, behavior: 'auto' });
+    }));
+  }, []);
+
+  const indexAtViewportCenter = useCallback(() => {
+    const container = containerRef.current;
+    const total = sizesRef.current.length;
+    if (!container || total === 0) return null;
+    return rowAt(offsetsRef.current, total, window.innerHeight / 2 - container.getBoundingClientRect().top);
+  }, []);
+
+  const setContainer = useCallback((element: HTMLElement | null) => {
+    containerRef.current = element;
+  }, []);
+
+  const offsets = offsetsRef.current;
+  const start = Math.min(range.start, count);
+  const end = Math.min(range.end, count);
+  return {
+    containerRef: setContainer,
+    measureRef,
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: offsets[count] - offsets[end],
+    scrollToIndex,
+    indexAtViewportCenter
+  };
+};
@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Runs Transformers.js model loading and inference off the main thread so
+// scrolling, PDF rendering and pinch-zoom stay responsive during a batch.
+
+import { pipeline, env } from '@xenova/transformers';
+import { createCustomModelFetch } from '../lib/customModelFetch';
+import type { TranslatorRequest, TranslatorResponse } from '../lib/translatorProtocol';
+
+const post = (msg: TranslatorResponse) => self.postMessage(msg);
+
+// Custom-model files sent by the app; the fetch override below serves them
+// when the Service Worker isn't controlling this worker yet.
+let customModelFiles: Map<string, Blob> | undefined;
+const originalFetch = self.fetch.bind(self);
+(self as any).fetch = createCustomModelFetch(
+  originalFetch,
+  () => customModelFiles,
+  (message) => post({ type: 'log', message })
+);
+
+env.allowLocalModels = true;
+env.allowRemoteModels = true;
+env.localModelPath = '';
+// The worker already is the background thread; keep ONNX in it
+env.backends.onnx.wasm.proxy = false;
+env.backends.onnx.wasm.numThreads = 1;
+env.backends.onnx.wasm.wasmPaths = 'https://cdn.jsdelivr.net/npm/@xenova/transformers@2.17.1/dist/';
+
+let translator: any = null;
+// Requests being translated, and those of them asked to stop; both are
+// cleared when the request settles
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+// Sentences per pipeline call; small enough that a cancel takes effect quickly
+const CHUNK_SIZE = 4;
+
+const load = async (req: Extract<TranslatorRequest, { type: 'load' }>) => {
+  translator = null;
+
+  if (req.modelSource === 'remote') {
+    env.localModelPath = '';
+    env.allowRemoteModels = true;
+    env.allowLocalModels = false;
+    // Force Transformers.js to use the correct CDN and not fallback to current origin
+    env.remoteHost = 'https://huggingface.co';
+    env.remotePathTemplate = '{model}/resolve/{revision}/';
+  } else {
+    customModelFiles = req.files;
+    // Transformers.js builds URL as: localModelPath + modelId + '/' + filename
+    env.localModelPath = self.location.origin + '/';
+    env.allowLocalModels = true;
+    env.allowRemoteModels = false; // STRIKT: Jangan download apa-apa dari internet di mode Custom!
+    env.remoteHost = '';
+    env.remotePathTemplate = '';
+  }
+
+  translator = await pipeline('translation', req.modelId, {
+    quantized: req.quantized,
+    progress_callback: (data: any) => post({ type: 'progress', requestId: req.requestId, data })
+  });
+  if (!translator) throw new Error("Pipeline returned null atau undefined");
+
+  post({ type: 'loaded', requestId: req.requestId, hasDecoder: !!translator.model?.decoder });
+};
+
+const translate = async (req: Extract<TranslatorRequest, { type: 'translate' }>) => {
+  if (!translator) throw new Error("Translator model not ready");
+
+  const start = performance.now();
+  const translations: string[] = [];
+  running.add(req.requestId);
+  try {
+    for (let i = 0; i < req.texts.length; i += CHUNK_SIZE) {
+      if (cancelled.has(req.requestId)) {
+        post({ type: 'cancelled', requestId: req.requestId });
+        return;
+      }
+      const results = await translator(req.texts.slice(i, i + CHUNK_SIZE), req.options);
+      const list = Array.isArray(results) ? results : [results];
+      translations.push(...list.map((r: any) => r.translation_text));
+    }
+  } finally {
+    running.delete(req.requestId);
+    cancelled.delete(req.requestId);
+  }
+
+  post({ type: 'result', requestId: req.requestId, translations, latency: performance.now() - start });
+};
+
+self.onmessage = async (event: MessageEvent<TranslatorRequest>) => {
+  const req = event.data;
+  try {
+    if (req.type === 'load') {
+      await load(req);
+    } else if (req.type === 'translate') {
+      await translate(req);
+    } else if (req.type === 'cancel') {
+      // A cancel that arrives after its request settled has nothing to stop
+      if (running.has(req.requestId)) cancelled.add(req.requestId);
+    }
+  } catch (error: any) {
+    post({ type: 'error', requestId: req.requestId, message: error?.message || String(error) });
+  }
+};